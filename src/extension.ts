@@ -1,56 +1,118 @@
 import * as vscode from 'vscode';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { randomUUID } from 'crypto';
 import { PracticeTimer } from './services/timerService';
-import { runActiveFile } from './services/runService';
+import { IdleMonitor } from './services/idleMonitor';
+import { runActiveFile, RunResult } from './services/runService';
+import { getSandboxLimits } from './services/sandbox';
+import { getLanguageConfig, getLanguageDefinitions, findLanguageDefinition } from './services/languageConfig';
+import { TOPICS, GENERAL_TOPIC, topicLabel, inferTopics, describeTopics } from './services/topics';
+import {
+	CommentSyntax,
+	getCommentSyntax,
+	commentLine,
+	commentLines,
+	isCommentLine,
+	isMarkerLine,
+	readLeadingComment
+} from './services/commentSyntax';
 import { saveToken, getToken, deleteToken, isLoggedIn } from './services/authService';
-import { sendPracticeData } from './services/apiService';
+import { sendPracticeData, flushPendingPracticeData, stopPendingSync, PracticeData } from './services/apiService';
+import { SyncQueue } from './services/syncQueue';
+import { PracticeHistory } from './services/historyService';
+import { computeStats } from './services/practiceStats';
+import { ReviewScheduler, ReviewItem } from './services/reviewScheduler';
+import { recommendDifficulty, isAdaptiveDifficultyEnabled } from './services/adaptiveDifficulty';
+import { initAiCache } from './services/aiCache';
+import { judgeFile, judgeVerdict, JudgeReport } from './services/judgeService';
+import { SessionStore, PracticeSession, createSession } from './services/sessionService';
+import { ProblemBank, BankProblem, Difficulty, toPracticeQuestion } from './services/problemBank';
+import { ProblemPanel, getDisplayMode } from './views/problemPanel';
+import { EvaluationDiagnostics } from './views/evaluationDiagnostics';
+import { ExplanationDecorations } from './views/explanationDecorations';
+import { StatsDashboard } from './views/statsDashboard';
 
 dotenv.config({
 	path: path.resolve(__dirname, '../.env')
 });
 
-import { generatePracticeQuestion } from './services/aiService';
-import { evaluateCode, explainCode, explainSelection } from './services/geminiService';
-
-let storedHint: string | null = null;
-let storedSolution: string | null = null;
-let storedExplanation: string | null = null;
-
-// Feature 1: tracks whether question came from user-written text (not AI-generated)
-let isUserWrittenQuestion = false;
-
-// Feature 2: Selection explanation — snapshot-based, supports multiple explains.
-// selectionFileSnapshot: full file content saved at the moment of FIRST explain.
-//   Used by "Remove Selection Explanation" to restore everything at once.
-// selectionExplainedBlocks: each explained block text, used to detect manual deletion.
-// hasSelectionExplanationFlag: true when at least one explain has been inserted.
-let selectionFileSnapshot: string | null = null;
-let selectionExplainedBlocks: string[] = [];
-let hasSelectionExplanationFlag = false;
-
-// State flags for context management
-let hasQuestionFlag = false;
-let solutionVisibleFlag = false;
-let hasExplanationFlag = false;
-let hintVisibleFlag = false;
-let evaluationVisibleFlag = false;
+import {
+	generatePracticeQuestion,
+	evaluateCode,
+	explainCode,
+	explainSelection,
+	resetAiProvider,
+	AiCancelledError,
+	AiRequestError,
+	GenerateOptions
+} from './services/aiService';
+import {
+	PracticeQuestion,
+	CodeEvaluation,
+	EvaluationVerdict,
+	TestCase,
+	LineExplanation,
+	AiResponseError,
+	formatEvaluationSummary,
+	previewStringField,
+	previewLineExplanations,
+	HINT_LEVEL_NAMES
+} from './services/aiSchemas';
+
+// Practice state for the active document. Each practice file has its own
+// PracticeSession (see sessionService.ts); this always points at the one
+// belonging to the active editor and is swapped on editor change.
+let sessions: SessionStore;
+let session: PracticeSession;
+
+// Stand-in session used while no practice document has been opened
+const NO_DOCUMENT_URI = vscode.Uri.parse('untitled:codeforgex-no-document');
+
+// How often a running session's timer is written to workspaceState
+const SESSION_SAVE_INTERVAL_MS = 15 * 1000;
+
+// Offline problems — bundled set plus user-saved ones
+let problemBank: ProblemBank;
+
 let practiceTimer: PracticeTimer;
 let timerStatusBar: vscode.StatusBarItem;
-let timerStarted = false;
+
+// Notices when the user steps away, so the timer can pause itself
+let idleMonitor: IdleMonitor;
+
+// How often the idle period is checked
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000;
 
 // Guard flag: set TRUE before any programmatic editor.edit() or
 // runActiveFile() call so the onDidChangeTextDocument listener
 // ignores those events and never accidentally starts the timer.
 let isExtensionEditing = false;
 
-// ─────────────────────────────────────────────────────────────
-// PHASE 2: Practice session tracking
-// These are reset on every new question generation so each
-// practice session is tracked independently.
-// ─────────────────────────────────────────────────────────────
-let hintsUsed = 0;
-let solutionViewed = false;
+// Shared output channel for run output and test reports
+let outputChannel: vscode.OutputChannel;
+
+// Side panel showing the active session's problem (display mode 'panel')
+let problemPanel: ProblemPanel;
+
+// Evaluation suggestions shown as diagnostics with Quick Fixes
+let evaluationDiagnostics: EvaluationDiagnostics;
+
+// Line explanations shown as decorations and hovers
+let explanationDecorations: ExplanationDecorations;
+
+// Completed sessions kept on this machine, and the dashboard built from them
+let practiceHistory: PracticeHistory;
+let statsDashboard: StatsDashboard;
+
+// Spaced-repetition reviews of past problems and topics
+let reviewScheduler: ReviewScheduler;
+let reviewStatusBar: vscode.StatusBarItem;
+
+// How often the review badge is refreshed, so reviews falling due overnight appear
+const REVIEW_BADGE_REFRESH_MS = 60 * 60 * 1000;
 
 // ─────────────────────────────────────────────────────────────
 // FIX 2 & 3: detectManualQuestion
@@ -58,7 +120,7 @@ let solutionViewed = false;
 // questions. Used in onDidChangeTextDocument so the timer starts
 // correctly even when the user pastes their own question without
 // going through AI generation. Also fixes Problem 3 because once
-// hasQuestionFlag is set, buildAvailableActions() works identically
+// session.hasQuestion is set, buildAvailableActions() works identically
 // for manual and AI-generated flows.
 // ─────────────────────────────────────────────────────────────
 function detectManualQuestion(text: string): boolean {
@@ -86,13 +148,320 @@ function detectManualQuestion(text: string): boolean {
 	return patterns.some(p => p.test(text));
 }
 
+// Shows an AI failure to the user. Malformed responses get their own
+// wording because retrying usually helps; request failures carry a
+// message written for the user, plus a shortcut to the AI settings when
+// the problem is likely in them. A cancelled request shows nothing.
+function showAiError(action: string, error: any): void {
+	if (error instanceof AiCancelledError) {
+		return;
+	}
+	if (error instanceof AiRequestError) {
+		console.error(`${action} (${error.kind}):`, error.detail);
+		const fixableInSettings = ['auth', 'network', 'badRequest'].includes(error.kind);
+		vscode.window
+			.showErrorMessage(`${action}: ${error.message}`, ...(fixableInSettings ? ['Open AI Settings'] : []))
+			.then(choice => {
+				if (choice) {
+					vscode.commands.executeCommand('workbench.action.openSettings', 'codeforgex.ai');
+				}
+			});
+		return;
+	}
+	if (error instanceof AiResponseError) {
+		console.error(`${action}:`, error.message, error.rawResponse);
+		vscode.window.showErrorMessage(`${action}: the AI response could not be understood. Please try again.`);
+		return;
+	}
+	console.error(`${action}:`, error);
+	vscode.window.showErrorMessage(`${action}: ${error?.message ?? 'unknown error'}`);
+}
+
+// Longest piece of streamed text shown in a progress notification
+const PROGRESS_PREVIEW_LENGTH = 60;
+
+// Runs an AI call behind a cancellable progress notification. The call
+// gets GenerateOptions whose signal is aborted by the Cancel button and
+// whose onText (when preview is given) streams the reply; preview turns
+// the text so far into a short progress message. Cancelling makes the
+// call reject with AiCancelledError.
+function withAiProgress<T>(
+	title: string,
+	run: (options: GenerateOptions) => Promise<T>,
+	preview?: (textSoFar: string) => string | null
+): Thenable<T> {
+	return vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title, cancellable: true },
+		async (progress, token) => {
+			const controller = new AbortController();
+			const subscription = token.onCancellationRequested(() => controller.abort());
+
+			const onText = preview && ((textSoFar: string) => {
+				const message = preview(textSoFar)?.replace(/\s+/g, ' ').trim();
+				if (message) {
+					progress.report({
+						message: message.length > PROGRESS_PREVIEW_LENGTH ? '…' + message.slice(-PROGRESS_PREVIEW_LENGTH) : message
+					});
+				}
+			});
+
+			try {
+				return await run({ signal: controller.signal, onText });
+			} finally {
+				subscription.dispose();
+			}
+		}
+	);
+}
+
+// Evaluate and Explain commands reuse cached answers; running them
+// with { regenerate: true } asks the AI again and replaces the cache.
+function isRegenerate(args: unknown): boolean {
+	return typeof args === 'object' && args !== null && (args as { regenerate?: unknown }).regenerate === true;
+}
+
+// Reports a result that came from the cache, with a button to ask the AI again
+async function showCachedResult(message: string, command: string): Promise<void> {
+	const choice = await vscode.window.showInformationMessage(`${message} (cached answer)`, 'Regenerate');
+	if (choice === 'Regenerate') {
+		await vscode.commands.executeCommand(command, { regenerate: true });
+	}
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Minutes per difficulty when "codeforgex.timer.timeLimits" is not set
+const DEFAULT_TIME_LIMIT_MINUTES: Record<Difficulty, number> = { Easy: 15, Medium: 30, Hard: 45 };
+
+// What happens when a problem's time limit runs out
+type ExpiryAction = 'notify' | 'revealHint' | 'submit';
+
+// Time limit for a new problem of this difficulty, or null when
+// countdown mode is off or the difficulty has no limit
+function getDefaultTimeLimit(difficulty: string | null): number | null {
+	const config = vscode.workspace.getConfiguration('codeforgex.timer');
+	if (!config.get<boolean>('countdown', false)) {
+		return null;
+	}
+
+	const limits = config.get<Record<string, number>>('timeLimits', DEFAULT_TIME_LIMIT_MINUTES);
+	const minutes = limits[difficulty ?? 'Medium'];
+	return typeof minutes === 'number' && minutes > 0 ? Math.round(minutes * 60) : null;
+}
+
+// Minutes without activity before the timer pauses itself; 0 = never
+function getIdlePauseMs(): number {
+	const minutes = vscode.workspace
+		.getConfiguration('codeforgex.timer')
+		.get<number>('idlePauseMinutes', 5);
+	return Math.max(0, minutes) * 60 * 1000;
+}
+
+function isPauseOnBlurEnabled(): boolean {
+	return vscode.workspace
+		.getConfiguration('codeforgex.timer')
+		.get<boolean>('pauseOnBlur', true);
+}
+
+function getExpiryAction(): ExpiryAction {
+	return vscode.workspace
+		.getConfiguration('codeforgex.timer')
+		.get<ExpiryAction>('onExpiry', 'notify');
+}
+
+function getDefaultDifficulty(): Difficulty {
+	return vscode.workspace
+		.getConfiguration('codeforgex.practice')
+		.get<Difficulty>('defaultDifficulty', 'Medium');
+}
+
+// Language to generate the practice question in. Normally the file's
+// own language; when that cannot be run (plain text, untitled files)
+// the "codeforgex.practice.defaultLanguage" setting is used instead.
+function resolvePracticeLanguage(document: vscode.TextDocument): string {
+	const fallback = vscode.workspace
+		.getConfiguration('codeforgex.practice')
+		.get<string>('defaultLanguage', '')
+		.trim();
+
+	if (!fallback || getLanguageConfig(document.languageId, document.fileName)) {
+		return document.languageId;
+	}
+	return fallback;
+}
+
+// Switches the document to the practice language so Run and Submit work.
+// Done last, because changing the language re-opens the document.
+async function applyPracticeLanguage(document: vscode.TextDocument, languageId: string): Promise<void> {
+	if (document.languageId === languageId) {
+		return;
+	}
+	try {
+		await vscode.languages.setTextDocumentLanguage(document, languageId);
+	} catch {
+		// Unknown to VS Code (no language extension installed) — keep the file as is
+	}
+}
+
+interface TopicPickItem extends vscode.QuickPickItem {
+	topic?: string;          // taxonomy label this item selects
+	custom?: boolean;        // "enter a topic" item
+}
+
+// Lets the user pick one or more topics for a new problem. Topics
+// inferred from the folder, file name and code are listed first and
+// pre-selected; the rest of the taxonomy follows, grouped by topic.
+// Returns undefined when the picker is dismissed.
+async function pickTopics(document: vscode.TextDocument): Promise<string[] | undefined> {
+	const inferred = inferTopics(document.fileName, document.getText());
+	const inferredLabels = new Set(inferred.map(match => match.label));
+	const items: TopicPickItem[] = [];
+
+	if (inferred.length > 0) {
+		items.push({ label: 'Detected', kind: vscode.QuickPickItemKind.Separator });
+		for (const match of inferred) {
+			items.push({ label: match.label, topic: match.label, description: `from ${match.sources.join(', ')}`, picked: true });
+		}
+	}
+
+	for (const topic of TOPICS) {
+		items.push({ label: topic.name, kind: vscode.QuickPickItemKind.Separator });
+		const labels = [topicLabel(topic), ...(topic.subtopics ?? []).map(subtopic => topicLabel(topic, subtopic))];
+		for (const label of labels.filter(candidate => !inferredLabels.has(candidate))) {
+			items.push({ label, topic: label });
+		}
+	}
+
+	items.push(
+		{ label: 'Other', kind: vscode.QuickPickItemKind.Separator },
+		{ label: '$(edit) Enter a topic…', custom: true }
+	);
+
+	const picked = await vscode.window.showQuickPick(items, {
+		canPickMany: true,
+		matchOnDescription: true,
+		placeHolder: 'Select one or more topics (type to search)'
+	});
+	if (!picked) {
+		return undefined;
+	}
+
+	const topics = picked.filter(item => item.topic).map(item => item.topic!);
+
+	if (picked.some(item => item.custom)) {
+		const manualTopic = await vscode.window.showInputBox({
+			prompt: 'Enter topic name manually'
+		});
+		if (manualTopic === undefined) {
+			return undefined;
+		}
+		if (manualTopic.trim() !== '') {
+			topics.push(manualTopic.trim());
+		}
+	}
+
+	return topics.length > 0 ? topics : [GENERAL_TOPIC];
+}
+
+interface DifficultyPickItem extends vscode.QuickPickItem {
+	difficulty?: Difficulty;
+	problem?: BankProblem;   // offline problem to use instead of generating one
+}
+
+// Offline problems listed per difficulty in the difficulty picker
+const BANK_PICKS_PER_LEVEL = 3;
+
+// Lets the user pick a difficulty for a new problem, or a ready-made
+// problem from the offline bank matching the topics. The suggested
+// level is listed first, with the reason for it.
+// Returns undefined when the picker is dismissed.
+async function pickDifficulty(
+	topicDescription: string,
+	suggestion: { difficulty: Difficulty; description: string }
+): Promise<{ difficulty: Difficulty; problem?: BankProblem } | undefined> {
+	const levels = [...DIFFICULTIES]
+		.sort((a, b) => Number(b === suggestion.difficulty) - Number(a === suggestion.difficulty));
+	const items: DifficultyPickItem[] = levels.map(level => ({
+		label: level,
+		description: level === suggestion.difficulty ? suggestion.description : undefined,
+		difficulty: level
+	}));
+
+	// search() falls back to other levels when one has no match, so filter again
+	const offline = levels.flatMap(level => problemBank
+		.search(topicDescription, level)
+		.filter(problem => problem.difficulty === level)
+		.slice(0, BANK_PICKS_PER_LEVEL));
+	if (offline.length > 0) {
+		items.push({ label: 'Offline problem bank', kind: vscode.QuickPickItemKind.Separator });
+		for (const problem of offline) {
+			items.push({
+				label: `$(library) ${problem.title}`,
+				description: `${problem.difficulty} · ${problem.topic}`,
+				difficulty: problem.difficulty,
+				problem
+			});
+		}
+	}
+
+	const picked = await vscode.window.showQuickPick(items, {
+		matchOnDescription: true,
+		placeHolder: 'Select difficulty level, or a problem from the offline bank'
+	});
+	return picked?.difficulty ? { difficulty: picked.difficulty, problem: picked.problem } : undefined;
+}
+
+// Start Practice without the topic and difficulty pickers, as used by
+// Review Due. With `problem` set that question is re-opened as it was;
+// otherwise a new one is generated, as a variant of `variantOf` if set.
+interface PracticeRequest {
+	topics: string[];
+	difficulty: string;
+	reviewOf: string;
+	problem?: PracticeQuestion;
+	variantOf?: string;
+}
+
+// The editor title button passes the document URI, which is not a request
+function asPracticeRequest(args: unknown): PracticeRequest | undefined {
+	const request = args as Partial<PracticeRequest> | undefined;
+	return Array.isArray(request?.topics) && typeof request?.difficulty === 'string'
+		? request as PracticeRequest
+		: undefined;
+}
+
+function updateReviewBadge(): void {
+	const due = reviewScheduler.due().length;
+	if (due === 0) {
+		reviewStatusBar.hide();
+		return;
+	}
+
+	reviewStatusBar.text = `$(history) ${due} due`;
+	reviewStatusBar.tooltip = `CodeForgeX: ${due} review${due === 1 ? '' : 's'} due — click to start`;
+	reviewStatusBar.show();
+}
+
+// "Due today" or "Overdue by 3 days"
+function describeDueDate(item: ReviewItem): string {
+	const today = new Date();
+	const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+	const daysOverdue = Math.round((startOfToday - item.dueAt) / (24 * 60 * 60 * 1000));
+
+	return daysOverdue <= 0 ? 'Due today' : `Overdue by ${daysOverdue} day${daysOverdue === 1 ? '' : 's'}`;
+}
+
 export function activate(context: vscode.ExtensionContext) {
-	// Initialize context keys
-	vscode.commands.executeCommand('setContext', 'codeforgex.hasQuestion', false);
-	vscode.commands.executeCommand('setContext', 'codeforgex.solutionVisible', false);
-	vscode.commands.executeCommand('setContext', 'codeforgex.hasExplanation', false);
-	vscode.commands.executeCommand('setContext', 'codeforgex.hintVisible', false);
-	vscode.commands.executeCommand('setContext', 'codeforgex.evaluationVisible', false);
+	// Restore practice sessions saved in this workspace.
+	// Context keys are set once the timer exists (see switchSession below).
+	sessions = new SessionStore(context.workspaceState);
+	session = createSession(NO_DOCUMENT_URI);
+
+	problemBank = new ProblemBank(context.globalStorageUri);
+	problemBank.load();
+	const aiCache = initAiCache(context.globalState);
+	practiceHistory = new PracticeHistory(context.globalState);
+	reviewScheduler = new ReviewScheduler(context.globalState);
 	console.log('CodeForgeX is now active!');
 
 	// ─────────────────────────────────────────────────────────────
@@ -106,6 +475,9 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	// Retry practice data that failed to upload in earlier sessions
+	flushPendingPracticeData(context);
+
 	// ─────────────────────────────────────────────────────────────
 	// PHASE 1: URI handler for deep link redirect after browser login.
 	// Website redirects to: vscode://<extension-id>/auth?token=JWT
@@ -114,16 +486,15 @@ export function activate(context: vscode.ExtensionContext) {
 const uriHandler = vscode.window.registerUriHandler({
 	handleUri: async (uri: vscode.Uri) => {
 
-		console.log("FULL URI:", uri.toString());
-		console.log("PATH:", uri.path);
-		console.log("QUERY:", uri.query);
-
 		const params = new URLSearchParams(uri.query);
 		const token = params.get('token');
 
 		if (token) {
 			await saveToken(context, token);
 			vscode.window.showInformationMessage('CodeForgeX: Login successful!');
+
+			// Send everything that queued up while logged out, right away
+			flushPendingPracticeData(context, true);
 		} else {
 			vscode.window.showErrorMessage('No token received.');
 		}
@@ -137,7 +508,11 @@ const uriHandler = vscode.window.registerUriHandler({
 	const loginCommand = vscode.commands.registerCommand(
 		'codeforgex.login',
 		async () => {
-			const loginUrl = vscode.Uri.parse('https://codexly.netlify.app/login');
+			const loginUrl = vscode.Uri.parse(
+				vscode.workspace
+					.getConfiguration('codeforgex.backend')
+					.get<string>('loginUrl', 'https://codexly.netlify.app/login')
+			);
 			await vscode.env.openExternal(loginUrl);
 			vscode.window.showInformationMessage(
 				'CodeForgeX: Opening login page. After login, you will be redirected back automatically.'
@@ -156,6 +531,15 @@ const uriHandler = vscode.window.registerUriHandler({
 	);
 	context.subscriptions.push(logoutCommand);
 
+	// Switching AI provider in settings takes effect on the next request
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('codeforgex.ai')) {
+				resetAiProvider();
+			}
+		})
+	);
+
 	// ============================
 	// Create Timer Status Bar
 	// ============================
@@ -169,17 +553,248 @@ const uriHandler = vscode.window.registerUriHandler({
 	timerStatusBar.command = "codeforgex.timerControls";
 	timerStatusBar.show();
 
+	// Review badge — only shown while something is due
+	reviewStatusBar = vscode.window.createStatusBarItem(
+		vscode.StatusBarAlignment.Right,
+		99
+	);
+	reviewStatusBar.command = 'codeforgex.reviewDue';
+	updateReviewBadge();
+
+	const reviewBadgeTimer = setInterval(updateReviewBadge, REVIEW_BADGE_REFRESH_MS);
+	context.subscriptions.push(reviewStatusBar, { dispose: () => clearInterval(reviewBadgeTimer) });
+
+	outputChannel = vscode.window.createOutputChannel('CodeForgeX');
+	context.subscriptions.push(outputChannel);
+
+	problemPanel = new ProblemPanel();
+	context.subscriptions.push(problemPanel);
+
+	statsDashboard = new StatsDashboard();
+	context.subscriptions.push(statsDashboard);
+
+	evaluationDiagnostics = new EvaluationDiagnostics();
+	context.subscriptions.push(
+		evaluationDiagnostics,
+		vscode.languages.registerCodeActionsProvider(
+			[{ scheme: 'file' }, { scheme: 'untitled' }],
+			evaluationDiagnostics,
+			{ providedCodeActionKinds: EvaluationDiagnostics.providedCodeActionKinds }
+		)
+	);
+
+	explanationDecorations = new ExplanationDecorations();
+	context.subscriptions.push(
+		explanationDecorations,
+		vscode.languages.registerHoverProvider(
+			[{ scheme: 'file' }, { scheme: 'untitled' }],
+			explanationDecorations
+		)
+	);
+
 	// Initialize timer
+	let lastTimerSaveAt = 0;
 	practiceTimer = new PracticeTimer((time) => {
-		timerStatusBar.text = `⏱ ${time}`;
+		showTimerState(time);
+
+		// Periodically persist so a crash loses at most a few seconds
+		if (practiceTimer.isActive() && Date.now() - lastTimerSaveAt >= SESSION_SAVE_INTERVAL_MS) {
+			lastTimerSaveAt = Date.now();
+			persistSession();
+		}
+
+		// Fires once per problem, and only while the user is actually on it
+		if (practiceTimer.isActive() && practiceTimer.getBudgetLevel() === 'expired' && !session.budgetExpired) {
+			session.budgetExpired = true;
+			persistSession();
+			onTimeBudgetExpired();
+		}
+	});
+
+	// Status bar text and countdown colours: warning when time runs low,
+	// error when nearly or fully spent
+	function showTimerState(time: string = practiceTimer.formatTime()): void {
+		const level = practiceTimer.getBudgetLevel();
+		const limit = practiceTimer.getTimeLimit();
+
+		timerStatusBar.text = `${session.autoPaused ? '⏸' : '⏱'} ${time}`;
+		timerStatusBar.backgroundColor = level === 'critical' || level === 'expired'
+			? new vscode.ThemeColor('statusBarItem.errorBackground')
+			: level === 'low' ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+
+		const details = [
+			limit === null ? '' : `${Math.round(limit / 60)} minute limit${level === 'expired' ? ' (over time)' : ''}`,
+			session.autoPaused ? 'paused while you are away' : ''
+		].filter(Boolean).join(', ');
+		timerStatusBar.tooltip = `CodeForgeX Practice Timer${details ? ` — ${details}` : ''}`;
+	}
+
+	// ─────────────────────────────────────────────────────────────
+	// AUTO-PAUSE
+	// A running timer pauses when the user has been idle for the
+	// configured period or the window loses focus, and resumes on the
+	// next edit, cursor move, run or focus. The time away is booked as
+	// idle time for the session instead of practice time.
+	// ─────────────────────────────────────────────────────────────
+	idleMonitor = new IdleMonitor({
+		away: () => {
+			if (!practiceTimer.isActive() || !session.timerStarted) {
+				return;
+			}
+			practiceTimer.pause();
+			session.autoPaused = true;
+			persistSession();
+			showTimerState();
+		},
+		back: resumeFromAway
 	});
 
+	function resumeFromAway(awaySeconds: number): void {
+		if (!session.autoPaused) {
+			return;
+		}
+		session.idleSeconds += awaySeconds;
+		session.autoPaused = false;
+		practiceTimer.start();
+		persistSession();
+		showTimerState();
+	}
+
+	// Books an away period that is still open, e.g. before the session is left
+	function settleAway(): void {
+		resumeFromAway(idleMonitor.settle());
+	}
+
+	const idleCheckTimer = setInterval(() => idleMonitor.check(getIdlePauseMs()), IDLE_CHECK_INTERVAL_MS);
+	context.subscriptions.push(
+		{ dispose: () => clearInterval(idleCheckTimer) },
+		vscode.window.onDidChangeWindowState(state => {
+			if (state.focused) {
+				idleMonitor.activity();
+			} else if (isPauseOnBlurEnabled()) {
+				idleMonitor.blur();
+			}
+		}),
+		vscode.window.onDidChangeTextEditorSelection(event => {
+			if (event.textEditor === vscode.window.activeTextEditor) {
+				idleMonitor.activity();
+			}
+		})
+	);
+
+	async function onTimeBudgetExpired(): Promise<void> {
+		const action = getExpiryAction();
+
+		if (action === 'revealHint' && session.hintLevel < session.hints.length) {
+			vscode.window.showWarningMessage('CodeForgeX: Time is up. Revealing the next hint.');
+			await vscode.commands.executeCommand('codeforgex.showHint');
+			return;
+		}
+		if (action === 'submit' && session.tests.length > 0) {
+			vscode.window.showWarningMessage('CodeForgeX: Time is up. Submitting your solution.');
+			await vscode.commands.executeCommand('codeforgex.submit');
+			return;
+		}
+
+		vscode.window.showWarningMessage('CodeForgeX: Time is up. The timer keeps counting so you can finish.');
+	}
+
+	// ─────────────────────────────────────────────────────────────
+	// PER-DOCUMENT SESSIONS
+	// Switching editors parks the current session (timer paused,
+	// elapsed time saved) and activates the session of the new
+	// document, restoring its timer and codeforgex.* context keys.
+	// ─────────────────────────────────────────────────────────────
+	function switchSession(document: vscode.TextDocument): void {
+		if (document.uri.toString() === session.uri) {
+			return;
+		}
+
+		parkSession();
+		session = sessions.getOrCreate(document.uri);
+
+		// Diagnostics and decorations do not survive a reload — restore them
+		if (session.evaluationVisible && session.evaluation && !evaluationDiagnostics.has(document.uri)) {
+			evaluationDiagnostics.publish(document, session.evaluation);
+		}
+		if (session.displayMode === 'inFile' && session.hasExplanation && !explanationDecorations.has(document.uri, 'code')) {
+			decorateSolution(document);
+		}
+
+		// Only still set if the window closed during an auto-pause; timerRunning covers it
+		session.autoPaused = false;
+
+		practiceTimer.setTimeLimit(session.timeLimitSeconds);
+		practiceTimer.restore(session.timer);
+		if (session.timerRunning) {
+			practiceTimer.start();
+		}
+
+		applyContextKeys();
+		problemPanel.update(session);
+	}
+
+	function parkSession(): void {
+		settleAway();
+		// Paused before saving, so time spent in other files is never counted
+		const wasRunning = practiceTimer.isActive();
+		practiceTimer.pause();
+		persistSession(wasRunning);
+	}
+
+	// Copies the live timer into the active session and saves all sessions.
+	// An auto-paused timer counts as running: it resumes once the user is back.
+	function persistSession(resume: boolean = practiceTimer.isActive() || session.autoPaused): void {
+		session.timer = practiceTimer.snapshot();
+		session.timerRunning = resume;
+		sessions.save();
+	}
+
+	// Long AI calls can outlive the editor they started in. Their results
+	// are only applied if the user is still on the same practice document.
+	function isStillActive(editor: vscode.TextEditor): boolean {
+		const stillActive = vscode.window.activeTextEditor?.document === editor.document
+			&& session.uri === editor.document.uri.toString();
+
+		if (!stillActive) {
+			vscode.window.showInformationMessage('CodeForgeX: editor changed while waiting for the AI — result discarded.');
+		}
+		return stillActive;
+	}
+
+	function applyContextKeys(): void {
+		vscode.commands.executeCommand('setContext', 'codeforgex.hasQuestion', session.hasQuestion);
+		vscode.commands.executeCommand('setContext', 'codeforgex.solutionVisible', session.solutionVisible);
+		vscode.commands.executeCommand('setContext', 'codeforgex.hasExplanation', session.hasExplanation);
+		vscode.commands.executeCommand('setContext', 'codeforgex.hintVisible', session.hintVisible);
+		vscode.commands.executeCommand('setContext', 'codeforgex.evaluationVisible', session.evaluationVisible);
+	}
+
+	// Only real documents get sessions — output channels, git diffs
+	// and focus moving to a panel (editor === undefined) are ignored.
+	function isPracticeDocument(document: vscode.TextDocument): boolean {
+		return document.uri.scheme === 'file' || document.uri.scheme === 'untitled';
+	}
+
+	if (vscode.window.activeTextEditor && isPracticeDocument(vscode.window.activeTextEditor.document)) {
+		switchSession(vscode.window.activeTextEditor.document);
+	} else {
+		applyContextKeys();
+	}
+
+	context.subscriptions.push(
+		vscode.window.onDidChangeActiveTextEditor(editor => {
+			if (editor && isPracticeDocument(editor.document)) {
+				switchSession(editor.document);
+				idleMonitor.activity();
+			}
+		})
+	);
+
 	// =====================================
 	// START TIMER ON FIRST USER TYPING
 	// FIX 2: Uses detectManualQuestion() so manually pasted questions
 	//        trigger the timer correctly, not just AI-generated ones.
-	// FIX 5: Re-evaluates hasExplanationFlag on every real document
-	//        change so undo/redo keeps Remove Explanation in sync.
 	// =====================================
 	vscode.workspace.onDidChangeTextDocument(async (event) => {
 
@@ -192,55 +807,28 @@ const uriHandler = vscode.window.registerUriHandler({
 		// Only track the active file
 		if (event.document !== editor.document) return;
 
-		// ─────────────────────────────────────────────────────────────
-		// FIX 5: Undo/Redo state sync for explanation flag.
-		// After every real document change (including undo/redo),
-		// re-check whether storedExplanation still exists in the file
-		// and sync hasExplanationFlag accordingly. This costs only one
-		// string check per keystroke and needs no markers.
-		// ─────────────────────────────────────────────────────────────
-		if (storedExplanation) {
-			const docText = event.document.getText();
-			const explanationPresent = docText.includes(storedExplanation);
-			if (explanationPresent !== hasExplanationFlag) {
-				await updateContextFlag('codeforgex.hasExplanation', explanationPresent);
-			}
-		}
-
-		// Auto-reset selection explanation if user manually deleted all explained blocks.
-		// Check each stored block — if NONE of them exist in the file anymore, clear state.
-		if (hasSelectionExplanationFlag && selectionExplainedBlocks.length > 0) {
-			const currentContent = event.document.getText();
-			const anyBlockStillExists = selectionExplainedBlocks.some(
-				block => currentContent.includes(block)
-			);
-			if (!anyBlockStillExists) {
-				hasSelectionExplanationFlag = false;
-				selectionExplainedBlocks = [];
-				selectionFileSnapshot = null;
-			}
-		}
+		idleMonitor.activity();
 
 		// ── FIX 2: Auto-detect manually pasted question ───────────────
-		// Set hasQuestionFlag SYNCHRONOUSLY first so the timer check
+		// Set session.hasQuestion SYNCHRONOUSLY first so the timer check
 		// on this SAME event sees the updated value immediately.
 		// VS Code does not await async event handlers, so if we only
 		// relied on the await inside updateContextFlag, the in-memory
 		// flag would be set but the timer check below would have already
 		// read the old value. Setting it directly here solves that.
-		if (!hasQuestionFlag) {
+		if (!session.hasQuestion) {
 			const docText = event.document.getText();
 			if (detectManualQuestion(docText)) {
-				hasQuestionFlag = true; // sync — makes timer check below work immediately
+				session.hasQuestion = true; // sync — makes timer check below work immediately
 				updateContextFlag('codeforgex.hasQuestion', true); // async — updates VS Code context (no await needed here)
 			}
 		}
 
 		// Timer already running — nothing to do
-		if (timerStarted) return;
+		if (session.timerStarted) return;
 
 		// Only relevant once a question has been detected (AI or manual)
-		if (!hasQuestionFlag) return;
+		if (!session.hasQuestion) return;
 
 		// A real keystroke: nothing was deleted/replaced AND new text arrived.
 		// Cursor blinks, cursor moves, saves, and auto-format all produce either
@@ -255,7 +843,8 @@ const uriHandler = vscode.window.registerUriHandler({
 
 		// ✅ Real user typing confirmed — start the timer
 		practiceTimer.start();
-		timerStarted = true;
+		session.timerStarted = true;
+		persistSession();
 
 		vscode.window.showInformationMessage("Practice timer started");
 	});
@@ -263,11 +852,13 @@ const uriHandler = vscode.window.registerUriHandler({
 	// Helper function to update context flag and variable
 	async function updateContextFlag(contextKey: string, value: boolean) {
 		await vscode.commands.executeCommand('setContext', contextKey, value);
-		if (contextKey === 'codeforgex.hasQuestion') hasQuestionFlag = value;
-		if (contextKey === 'codeforgex.solutionVisible') solutionVisibleFlag = value;
-		if (contextKey === 'codeforgex.hasExplanation') hasExplanationFlag = value;
-		if (contextKey === 'codeforgex.hintVisible') hintVisibleFlag = value;
-		if (contextKey === 'codeforgex.evaluationVisible') evaluationVisibleFlag = value;
+		if (contextKey === 'codeforgex.hasQuestion') session.hasQuestion = value;
+		if (contextKey === 'codeforgex.solutionVisible') session.solutionVisible = value;
+		if (contextKey === 'codeforgex.hasExplanation') session.hasExplanation = value;
+		if (contextKey === 'codeforgex.hintVisible') session.hintVisible = value;
+		if (contextKey === 'codeforgex.evaluationVisible') session.evaluationVisible = value;
+		persistSession();
+		problemPanel.update(session);
 	}
 
 	// Build available actions based on current state.
@@ -275,9 +866,17 @@ const uriHandler = vscode.window.registerUriHandler({
 	function buildAvailableActions(): string[] {
 		const actions: string[] = [];
 
+		// Tests can be submitted at any point once a question exists
+		if (session.hasQuestion && session.tests.length > 0) {
+			actions.push('Submit Solution');
+		}
+
 		// Before solution is shown, manage hint toggle
-		if (hasQuestionFlag && !solutionVisibleFlag) {
-			if (hintVisibleFlag) {
+		if (session.hasQuestion && !session.solutionVisible) {
+			if (session.hintVisible) {
+				if (session.hintLevel < session.hints.length) {
+					actions.push('Show Next Hint');
+				}
 				actions.push('Hide Hint');
 			} else {
 				actions.push('Show Hint');
@@ -286,11 +885,11 @@ const uriHandler = vscode.window.registerUriHandler({
 		}
 
 		// After solution is shown
-		if (solutionVisibleFlag) {
-			if (!hasExplanationFlag) {
+		if (session.solutionVisible) {
+			if (!session.hasExplanation) {
 				actions.push('Explain Code');
 			}
-			if (evaluationVisibleFlag) {
+			if (session.evaluationVisible) {
 				actions.push('Remove Evaluation');
 			} else {
 				actions.push('Evaluate Code');
@@ -298,10 +897,15 @@ const uriHandler = vscode.window.registerUriHandler({
 		}
 
 		// Explanation handling
-		if (hasExplanationFlag) {
+		if (session.hasExplanation) {
 			actions.push('Remove Explanation');
 		}
 
+		// Panel problems never leave the file, so they are replaced from here
+		if (session.displayMode === 'panel' && session.hasQuestion) {
+			actions.push('New Problem');
+		}
+
 		return actions;
 	}
 
@@ -309,42 +913,48 @@ const uriHandler = vscode.window.registerUriHandler({
 	// Called every time startPractice dropdown is about to be shown,
 	// so that deletes, undos, and redos are always reflected correctly.
 	function syncFlagsFromFile(editor: vscode.TextEditor): void {
+		// Panel sessions keep all generated content out of the file,
+		// so the file says nothing about what is visible.
+		if (session.displayMode === 'panel') {
+			return;
+		}
+
 		const content = editor.document.getText();
 		const trimmed = content.trim();
 
-		// If file is empty or has no question marker and hasQuestionFlag thinks there is one,
+		// If file is empty or has no question marker and session.hasQuestion thinks there is one,
 		// reset everything — user wiped the file.
-		if (hasQuestionFlag) {
+		if (session.hasQuestion) {
 			const hasAiQuestion = content.includes('Question (');
-			const hasUserQuestion = isUserWrittenQuestion && trimmed.length > 0;
+			const hasUserQuestion = session.isUserWrittenQuestion && trimmed.length > 0;
 			if (!hasAiQuestion && !hasUserQuestion) {
-				hasQuestionFlag = false;
-				hintVisibleFlag = false;
-				solutionVisibleFlag = false;
-				hasExplanationFlag = false;
-				evaluationVisibleFlag = false;
+				session.hasQuestion = false;
+				session.hintVisible = false;
+				session.solutionVisible = false;
+				session.hasExplanation = false;
+				session.evaluationVisible = false;
 				return; // nothing more to check
 			}
 		}
 
 		// Sync hint visibility — check if "Hint:" marker is in file
-		if (hintVisibleFlag && !content.includes('Hint:')) {
-			hintVisibleFlag = false;
+		if (session.hintVisible && !content.includes('Hint:')) {
+			session.hintVisible = false;
 		}
 
 		// Sync solution visibility — check if stored solution code is in file
-		if (solutionVisibleFlag && storedSolution && !content.includes(storedSolution)) {
-			solutionVisibleFlag = false;
+		if (session.solutionVisible && session.solution && !content.includes(session.solution)) {
+			session.solutionVisible = false;
 		}
 
-		// Sync explanation visibility — check if stored explanation is in file
-		if (hasExplanationFlag && storedExplanation && !content.includes(storedExplanation)) {
-			hasExplanationFlag = false;
+		// Sync explanation visibility — decorations vanish when their lines are deleted
+		if (session.hasExplanation && !explanationDecorations.has(editor.document.uri, 'code')) {
+			session.hasExplanation = false;
 		}
 
 		// Sync evaluation visibility — check if evaluation marker is in file
-		if (evaluationVisibleFlag && !content.includes('Code Evaluation Summary:')) {
-			evaluationVisibleFlag = false;
+		if (session.evaluationVisible && !content.includes('Evaluation:')) {
+			session.evaluationVisible = false;
 		}
 	}
 
@@ -352,7 +962,7 @@ const uriHandler = vscode.window.registerUriHandler({
 	// OR in-memory flag is set (covers user-written question sessions where
 	// no "Question (" header is inserted into the file).
 	function detectQuestionInFile(editor: vscode.TextEditor): boolean {
-		if (hasQuestionFlag) return true;
+		if (session.hasQuestion) return true;
 		const content = editor.document.getText();
 		return content.includes('Question (');
 	}
@@ -364,38 +974,12 @@ const uriHandler = vscode.window.registerUriHandler({
 		const content = editor.document.getText();
 
 		// If question already active (AI-generated or user-written), do not re-detect
-		if (hasQuestionFlag) return null;
+		if (session.hasQuestion) return null;
 		if (content.includes('Question (')) return null;
 
-		const lines = content.split('\n');
-		const languageId = editor.document.languageId;
-		const commentPrefix = languageId === 'python' ? '#' : '//';
-
-		const questionLines: string[] = [];
-
-		for (const line of lines) {
-			const trimmed = line.trim();
-
-			// Skip empty lines at top
-			if (trimmed === '') {
-				if (questionLines.length === 0) continue;
-				else break; // blank line ends the comment block
-			}
-
-			// Must be a comment line
-			if (!trimmed.startsWith(commentPrefix)) break;
-
-			// Strip the comment prefix and collect
-			const text = trimmed.replace(new RegExp(`^${commentPrefix}\\s*`), '').trim();
-			if (text.length > 0) {
-				questionLines.push(text);
-			}
-		}
-
-		// Need at least one non-empty comment line to count as a question
-		if (questionLines.length === 0) return null;
-
-		return questionLines.join(' ');
+		// Line comments, a block comment or a Python docstring all count
+		const syntax = getCommentSyntax(editor.document.languageId, editor.document.fileName);
+		return readLeadingComment(syntax, content);
 	}
 
 	const timerControlCommand = vscode.commands.registerCommand(
@@ -403,12 +987,15 @@ const uriHandler = vscode.window.registerUriHandler({
 		async () => {
 
 			const action = await vscode.window.showQuickPick(
-				["Pause", "Resume", "Reset", "Stop"],
+				["Pause", "Resume", "Reset", "Stop", "Set Time Limit..."],
 				{ placeHolder: "Timer Controls" }
 			);
 
 			if (!action) return;
 
+			// Any pause from being away ends here; the chosen action decides what follows
+			settleAway();
+
 			if (action === "Pause") {
 				practiceTimer.pause();
 			}
@@ -419,7 +1006,9 @@ const uriHandler = vscode.window.registerUriHandler({
 
 			if (action === "Reset") {
 				practiceTimer.reset();
-				timerStarted = false;
+				session.timerStarted = false;
+				session.budgetExpired = false;
+				session.idleSeconds = 0;
 			}
 
 			if (action === "Stop") {
@@ -427,15 +1016,40 @@ const uriHandler = vscode.window.registerUriHandler({
 				vscode.window.showInformationMessage(
 					`Practice completed in ${finalTime}`
 				);
-				timerStarted = false;
+				session.timerStarted = false;
+				session.budgetExpired = false;
+				session.idleSeconds = 0;
+			}
+
+			// Overrides the per-difficulty default for this problem only
+			if (action === "Set Time Limit...") {
+				const input = await vscode.window.showInputBox({
+					prompt: "Time limit for this problem in minutes (empty or 0 for no limit)",
+					value: session.timeLimitSeconds ? String(Math.round(session.timeLimitSeconds / 60)) : "",
+					validateInput: value => Number.isFinite(Number(value.trim() || 0)) && Number(value.trim() || 0) >= 0
+						? undefined
+						: "Enter a number of minutes."
+				});
+				if (input === undefined) {
+					return;
+				}
+
+				const minutes = Number(input.trim() || 0);
+				session.timeLimitSeconds = minutes > 0 ? Math.round(minutes * 60) : null;
+				// A limit that has already passed does not fire the expiry action
+				session.budgetExpired = session.timeLimitSeconds !== null && practiceTimer.getSeconds() >= session.timeLimitSeconds;
+				practiceTimer.setTimeLimit(session.timeLimitSeconds);
 			}
+
+			persistSession();
 		}
 	);
 
 
 	const disposable = vscode.commands.registerCommand(
 		'codeforgex.startPractice',
-		async () => {
+		async (args?: unknown) => {
+			const request = asPracticeRequest(args);
 
 			const editor = vscode.window.activeTextEditor;
 			if (!editor) {
@@ -456,44 +1070,54 @@ const uriHandler = vscode.window.registerUriHandler({
 				// If yes → generate hint+solution silently, set flags,
 				// then fall through to dropdown immediately.
 				// ─────────────────────────────────────────────────────
-				const userQuestion = extractUserWrittenQuestion(editor);
+				const userQuestion = request ? null : extractUserWrittenQuestion(editor);
 
 				if (userQuestion) {
-					const languageId = editor.document.languageId;
+					const languageId = resolvePracticeLanguage(editor.document);
+					// The question is already in the file, so the code-based inference sees it
+					const topics = inferTopics(editor.document.fileName, editor.document.getText()).map(match => match.label);
+					const difficulty = suggestDifficulty(topics).difficulty;
 
-					let aiContent: string;
+					let generated: PracticeQuestion;
 					try {
 						// Show progress spinner so UI doesn't appear frozen during AI call
-						aiContent = await vscode.window.withProgress(
-							{
-								location: vscode.ProgressLocation.Notification,
-								title: "Generating hint and solution for your question...",
-								cancellable: false
-							},
-							async () => {
-								return await generatePracticeQuestion(
-									userQuestion,
-									languageId,
-									'Medium'
-								);
-							}
+						generated = await withAiProgress(
+							'Generating hint and solution for your question...',
+							options => generatePracticeQuestion(userQuestion, languageId, difficulty, options)
 						);
-					} catch {
-						vscode.window.showErrorMessage('AI generation failed.');
+					} catch (error: any) {
+						showAiError('AI generation failed', error);
 						return;
 					}
 
-					// Parse hint and solution only — question is not inserted
-					const hintMatch = aiContent.match(/\[HINT\]([\s\S]*?)(?=\[SOLUTION\]|$)/);
-					const solutionMatch = aiContent.match(/\[SOLUTION\]([\s\S]*)/);
+					if (!isStillActive(editor)) {
+						return;
+					}
 
-					storedHint = hintMatch ? hintMatch[1].trim() : null;
-					storedSolution = solutionMatch ? solutionMatch[1].trim() : null;
-					isUserWrittenQuestion = true;
+					// Keep hint and solution only — question is not inserted
+					session.question = userQuestion;
+					session.topics = topics;
+					session.difficulty = difficulty;
+					session.hints = generated.hints;
+					session.hintLevel = 0;
+					session.solution = generated.solution;
+					session.explanations = [];
+					explanationDecorations.clear(editor.document.uri, 'code');
+					session.evaluation = null;
+					evaluationDiagnostics.clear(editor.document.uri);
+					session.tests = generated.tests;
+					session.isUserWrittenQuestion = true;
+					session.reviewOf = null;
+					session.displayMode = getDisplayMode();
 
 					// Reset practice tracking for new session
-					hintsUsed = 0;
-					solutionViewed = false;
+					session.hintsUsed = 0;
+					session.solutionViewed = false;
+					session.passRate = null;
+					session.timeLimitSeconds = getDefaultTimeLimit(difficulty);
+					session.budgetExpired = false;
+					session.idleSeconds = 0;
+					practiceTimer.setTimeLimit(session.timeLimitSeconds);
 
 					// Set flags exactly like normal generation
 					await updateContextFlag('codeforgex.hintVisible', false);
@@ -502,104 +1126,128 @@ const uriHandler = vscode.window.registerUriHandler({
 					await updateContextFlag('codeforgex.evaluationVisible', false);
 					await updateContextFlag('codeforgex.hasQuestion', true);
 
-					// DO NOT return — fall through to the dropdown below immediately
-
-				} else {
-					// No user-written question found — normal AI question generation flow
-					isUserWrittenQuestion = false;
-
-					// Reset practice tracking for new session
-					hintsUsed = 0;
-					solutionViewed = false;
-
-					// Reset context keys for new question
-					await updateContextFlag('codeforgex.hintVisible', false);
-					await updateContextFlag('codeforgex.solutionVisible', false);
-					await updateContextFlag('codeforgex.hasExplanation', false);
-					await updateContextFlag('codeforgex.evaluationVisible', false);
-
-					const fileName = editor.document.fileName;
-					const baseName = fileName.split('/').pop()?.toLowerCase() || '';
-
-					let detectedTopic = 'General Programming';
-
-					if (baseName.includes('binary') || baseName.includes('search')) {
-						detectedTopic = 'Searching';
-					} else if (baseName.includes('sort')) {
-						detectedTopic = 'Sorting';
-					} else if (baseName.includes('linked') || baseName.includes('list')) {
-						detectedTopic = 'Linked List';
+					if (session.displayMode === 'panel') {
+						problemPanel.show(session);
 					}
 
-					const topicDecision = await vscode.window.showInformationMessage(
-						`Detected Topic: ${detectedTopic}`,
-						{ modal: true },
-						'Continue',
-						'Change Topic'
-					);
-
-					if (!topicDecision) return;
+					await applyPracticeLanguage(editor.document, languageId);
 
-					if (topicDecision === 'Change Topic') {
-						const manualTopic = await vscode.window.showInputBox({
-							prompt: 'Enter topic name manually'
-						});
+					// DO NOT return — fall through to the dropdown below immediately
 
-						if (manualTopic && manualTopic.trim() !== '') {
-							detectedTopic = manualTopic.trim();
-						}
+				} else {
+					// No user-written question found — normal AI question generation flow.
+					// The session is only reset once a question has arrived, so
+					// dismissing a picker or cancelling generation changes nothing.
+					const topics = request?.topics ?? await pickTopics(editor.document);
+					if (!topics) {
+						return;
 					}
+					const topicDescription = describeTopics(topics);
+
+					const difficultyPick: { difficulty: string; problem?: BankProblem } | undefined = request
+						? { difficulty: request.difficulty }
+						: await pickDifficulty(topicDescription, suggestDifficulty(topics));
+
+					if (!difficultyPick) return;
+
+					const difficulty = difficultyPick.difficulty;
+					const bankProblem = difficultyPick.problem;
+					const languageId = resolvePracticeLanguage(editor.document);
+					const displayMode = getDisplayMode();
+					const prompt = request?.variantOf
+						? `${topicDescription}. Write a new variant of this earlier problem, using the same technique ` +
+						  `with a different scenario and constraints:\n${request.variantOf}`
+						: topicDescription;
+					// A re-opened review or a problem picked from the offline bank needs no AI
+					const ready = request?.problem ?? (bankProblem ? toPracticeQuestion(bankProblem, languageId) : undefined);
+					let generated: PracticeQuestion;
 
-					const difficulty = await vscode.window.showQuickPick(
-						['Easy', 'Medium', 'Hard'],
-						{ placeHolder: 'Select difficulty level' }
-					);
-
-					if (!difficulty) return;
+					try {
+						generated = ready ?? await withAiProgress(
+							'Generating practice question...',
+							options => generatePracticeQuestion(prompt, languageId, difficulty, {
+								...options,
+								onText: textSoFar => {
+									options.onText?.(textSoFar);
+									// The question is the first field, so the panel fills in while the rest arrives
+									const question = previewStringField(textSoFar, 'question');
+									if (displayMode === 'panel' && question) {
+										problemPanel.show({ ...createSession(editor.document.uri), hasQuestion: true, question, difficulty, topics });
+									}
+								}
+							}),
+							textSoFar => previewStringField(textSoFar, 'question')
+						);
+					} catch (error: any) {
+						// Put back whatever the panel showed before the preview
+						problemPanel.update(session);
+						if (error instanceof AiCancelledError) {
+							return;
+						}
 
-					const languageId = editor.document.languageId;
-					let aiContent: string;
+						// AI down, over quota or not configured — fall back to the
+						// offline problem bank so practice can continue.
+						const offline = problemBank.pick(topicDescription, difficulty, session.question);
+						if (!offline) {
+							showAiError('AI generation failed', error);
+							return;
+						}
 
-					try {
-						aiContent = await vscode.window.withProgress(
-							{
-								location: vscode.ProgressLocation.Notification,
-								title: "Generating practice question...",
-								cancellable: false
-							},
-							async () => {
-								return await generatePracticeQuestion(
-									detectedTopic,
-									languageId,
-									difficulty
-								);
-							}
+						console.error('AI generation failed, using offline problem bank:', error);
+						vscode.window.showWarningMessage(
+							`CodeForgeX: AI unavailable (${error?.message ?? 'unknown error'}). Using offline problem "${offline.title}".`
 						);
-					} catch {
-						vscode.window.showErrorMessage('AI generation failed.');
+						generated = toPracticeQuestion(offline, languageId);
+					}
+
+					if (!isStillActive(editor)) {
 						return;
 					}
 
-					const commentPrefix = languageId === 'python' ? '# ' : '// ';
-					const headerLine = `${commentPrefix}Question (${difficulty})\n\n`;
+					const syntax = getCommentSyntax(languageId, editor.document.fileName);
+					const headerLine = `${commentLine(syntax, `Question (${difficulty})`)}\n\n`;
 
-					const questionMatch = aiContent.match(/\[QUESTION\]([\s\S]*?)(?=\[HINT\]|\[SOLUTION\]|$)/);
-					const hintMatch = aiContent.match(/\[HINT\]([\s\S]*?)(?=\[SOLUTION\]|$)/);
-					const solutionMatch = aiContent.match(/\[SOLUTION\]([\s\S]*)/);
+					session.isUserWrittenQuestion = false;
+					session.reviewOf = request?.reviewOf ?? null;
 
-					storedHint = hintMatch ? hintMatch[1].trim() : null;
-					storedSolution = solutionMatch ? solutionMatch[1].trim() : null;
+					// Reset practice tracking for new session
+					session.hintsUsed = 0;
+					session.solutionViewed = false;
+					session.passRate = null;
+					session.timeLimitSeconds = getDefaultTimeLimit(difficulty);
+					session.budgetExpired = false;
+					session.idleSeconds = 0;
+					practiceTimer.setTimeLimit(session.timeLimitSeconds);
 
-					let finalContent = headerLine;
+					// Reset context keys for new question
+					await updateContextFlag('codeforgex.hintVisible', false);
+					await updateContextFlag('codeforgex.solutionVisible', false);
+					await updateContextFlag('codeforgex.hasExplanation', false);
+					await updateContextFlag('codeforgex.evaluationVisible', false);
 
-					if (questionMatch) {
-						finalContent += questionMatch[1]
-							.trim()
-							.split('\n')
-							.map(line => commentPrefix + line)
-							.join('\n') + '\n\n';
+					session.question = generated.question;
+					session.topics = topics;
+					session.difficulty = difficulty;
+					session.hints = generated.hints;
+					session.hintLevel = 0;
+					// Offline problems may lack a solution in this language
+					session.solution = generated.solution || null;
+					session.explanations = [];
+					explanationDecorations.clear(editor.document.uri, 'code');
+					session.evaluation = null;
+					evaluationDiagnostics.clear(editor.document.uri);
+					session.tests = generated.tests;
+					session.displayMode = displayMode;
+
+					if (session.displayMode === 'panel') {
+						await updateContextFlag('codeforgex.hasQuestion', true);
+						problemPanel.show(session);
+						await applyPracticeLanguage(editor.document, languageId);
+						return;
 					}
 
+					const finalContent = headerLine + commentLines(syntax, generated.question) + '\n\n';
+
 					// Guard: question insertion must not start the timer
 					isExtensionEditing = true;
 					await editor.edit(editBuilder => {
@@ -618,6 +1266,7 @@ const uriHandler = vscode.window.registerUriHandler({
 
 					// Set context key and return — normal flow ends here
 					await updateContextFlag('codeforgex.hasQuestion', true);
+					await applyPracticeLanguage(editor.document, languageId);
 					return;
 				}
 			}
@@ -635,7 +1284,7 @@ const uriHandler = vscode.window.registerUriHandler({
 
 			// If syncFlagsFromFile determined there's no longer a question,
 			// treat this click as a fresh start.
-			if (!hasQuestionFlag) {
+			if (!session.hasQuestion) {
 				vscode.window.showInformationMessage('No question found. Use Start Practice to generate one.');
 				return;
 			}
@@ -655,7 +1304,7 @@ const uriHandler = vscode.window.registerUriHandler({
 				// - "Explain Selection" appears whenever text is selected (always)
 				// - "Remove Selection Explanation" appears whenever explanations exist
 				// These are NOT mutually exclusive — both can appear simultaneously.
-				if (hasSelectionExplanationFlag) {
+				if (explanationDecorations.has(editor.document.uri, 'selection')) {
 					availableActions.unshift('Remove Selection Explanation');
 				}
 				if (hasSelection) {
@@ -683,7 +1332,11 @@ const uriHandler = vscode.window.registerUriHandler({
 					await vscode.commands.executeCommand('codeforgex.removeSelectionExplanation');
 				}
 
-				if (action === 'Show Hint') {
+				if (action === 'Submit Solution') {
+					await vscode.commands.executeCommand('codeforgex.submit');
+				}
+
+				if (action === 'Show Hint' || action === 'Show Next Hint') {
 					await vscode.commands.executeCommand('codeforgex.showHint');
 				}
 
@@ -710,34 +1363,185 @@ const uriHandler = vscode.window.registerUriHandler({
 				if (action === 'Remove Explanation') {
 					await vscode.commands.executeCommand('codeforgex.removeExplanation');
 				}
-			}
-		}
-	);
 
-	const hintCommand = vscode.commands.registerCommand(
-		'codeforgex.showHint',
+				if (action === 'New Problem') {
+					const confirmed = await vscode.window.showWarningMessage(
+						'Discard the current problem and start a new one?',
+						{ modal: true },
+						'New Problem'
+					);
+					if (confirmed) {
+						await clearProblem();
+						await vscode.commands.executeCommand('codeforgex.startPractice');
+						return;
+					}
+				}
+			}
+		}
+	);
+
+	// Renders hint levels 1..upToLevel as one comment block. Levels sit
+	// under a single "Hint:" header with no blank lines in between, so
+	// removeHintBlock() can strip the whole ladder in one go.
+	function buildHintBlock(syntax: CommentSyntax, upToLevel: number): string {
+		const levels = session.hints.slice(0, upToLevel).map((hint, index) => {
+			const label = `[${index + 1}/${session.hints.length} ${HINT_LEVEL_NAMES[index] ?? 'Hint'}]`;
+			return commentLines(syntax, `${label} ${hint}`);
+		});
+
+		return `\n${commentLine(syntax, 'Hint:')}\n` + levels.join('\n') + '\n\n';
+	}
+
+	// Line range [start, end] of the "Evaluation:" comment block, or
+	// null when the file has none. The block runs over consecutive
+	// comment lines and ends at the first blank line.
+	function findEvaluationBlock(lines: string[], syntax: CommentSyntax): [number, number] | null {
+		const evalStartIndex = lines.findIndex(line => isMarkerLine(syntax, line, 'Evaluation:'));
+		if (evalStartIndex === -1) {
+			return null;
+		}
+
+		let evalEndIndex = evalStartIndex;
+		for (let i = evalStartIndex + 1; i < lines.length; i++) {
+			const trimmedLine = lines[i].trim();
+			// Continue if line is empty or a comment
+			if (trimmedLine === '' || isCommentLine(syntax, trimmedLine)) {
+				evalEndIndex = i;
+				// Stop at blank line
+				if (trimmedLine === '') {
+					break;
+				}
+			} else {
+				// Non-comment line found, stop here
+				evalEndIndex = i - 1;
+				break;
+			}
+		}
+		return [evalStartIndex, evalEndIndex];
+	}
+
+	// Removes the "Evaluation:" comment block from the file.
+	// Returns false when no evaluation block was found.
+	async function removeEvaluationBlock(editor: vscode.TextEditor): Promise<boolean> {
+		const lines = editor.document.getText().split('\n');
+		const block = findEvaluationBlock(lines, getCommentSyntax(editor.document.languageId, editor.document.fileName));
+		if (!block) {
+			return false;
+		}
+
+		await deleteLines(editor, block[0], block[1]);
+
+		return true;
+	}
+
+	// Removes the "Hint:" comment block from the file.
+	// Returns false when no hint block was found.
+	async function removeHintBlock(editor: vscode.TextEditor): Promise<boolean> {
+		const lines = editor.document.getText().split('\n');
+		const syntax = getCommentSyntax(editor.document.languageId, editor.document.fileName);
+
+		// Find the "Hint:" header comment
+		let hintStartIndex = -1;
+		for (let i = 0; i < lines.length; i++) {
+			if (isMarkerLine(syntax, lines[i], 'Hint:')) {
+				hintStartIndex = i;
+				break;
+			}
+		}
+
+		if (hintStartIndex === -1) {
+			return false;
+		}
+
+		// Find end of hint block (consecutive comment lines)
+		let hintEndIndex = hintStartIndex;
+		for (let i = hintStartIndex + 1; i < lines.length; i++) {
+			const trimmedLine = lines[i].trim();
+			// Continue if line is empty or a comment
+			if (trimmedLine === '' || isCommentLine(syntax, trimmedLine)) {
+				hintEndIndex = i;
+				// Stop at blank line
+				if (trimmedLine === '') {
+					break;
+				}
+			} else {
+				// Non-comment line found, stop here
+				hintEndIndex = i - 1;
+				break;
+			}
+		}
+
+		// Remove the hint block
+		await deleteLines(editor, hintStartIndex, hintEndIndex);
+
+		return true;
+	}
+
+	// Deletes lines start..end (inclusive) and nothing else, so the
+	// evaluation diagnostics and explanation decorations on the rest of
+	// the file stay where they are. A block at the end of the file also
+	// takes the line break before it.
+	async function deleteLines(editor: vscode.TextEditor, start: number, end: number): Promise<void> {
+		const document = editor.document;
+		const range = end + 1 < document.lineCount
+			? new vscode.Range(start, 0, end + 1, 0)
+			: new vscode.Range(
+				start > 0 ? document.lineAt(start - 1).range.end : new vscode.Position(0, 0),
+				document.lineAt(document.lineCount - 1).range.end
+			);
+
+		// Guard: removing comment blocks must not start the timer
+		isExtensionEditing = true;
+		await editor.edit(editBuilder => editBuilder.delete(range));
+		isExtensionEditing = false;
+	}
+
+	// ─────────────────────────────────────────────────────────────
+	// SHOW HINT — hint ladder
+	// Each call reveals one more level (nudge → approach → pseudocode).
+	// When the hints are hidden, the first call re-shows the levels
+	// already seen instead of jumping ahead.
+	// ─────────────────────────────────────────────────────────────
+	const hintCommand = vscode.commands.registerCommand(
+		'codeforgex.showHint',
 		async () => {
 
 			const editor = vscode.window.activeTextEditor;
-			if (!editor || !storedHint) {
+			if (!editor || session.hints.length === 0) {
 				vscode.window.showInformationMessage('No hint available.');
 				return;
 			}
 
-			if (editor.document.getText().includes('Hint:')) {
-				vscode.window.showInformationMessage('Hint already revealed.');
+			const hintShown = session.displayMode === 'panel'
+				? session.hintVisible
+				: editor.document.getText().includes('Hint:');
+
+			if (hintShown && session.hintLevel >= session.hints.length) {
+				vscode.window.showInformationMessage('All hint levels already revealed.');
+				return;
+			}
+
+			if (hintShown || session.hintLevel === 0) {
+				session.hintLevel++;
+			}
+
+			// PHASE 2: Track hint usage for practice data sync
+			session.hintsUsed++;
+
+			if (session.displayMode === 'panel') {
+				await updateContextFlag('codeforgex.hintVisible', true);
+				problemPanel.show(session);
 				return;
 			}
 
-			const commentPrefix = editor.document.languageId === 'python' ? '# ' : '// ';
+			const syntax = getCommentSyntax(editor.document.languageId, editor.document.fileName);
+
+			// Replace the previous (shorter) ladder with the extended one
+			if (hintShown) {
+				await removeHintBlock(editor);
+			}
 
-			const hintContent =
-				`\n${commentPrefix}Hint:\n` +
-				storedHint
-					.split('\n')
-					.map(line => commentPrefix + line)
-					.join('\n') +
-				'\n\n';
+			const hintContent = buildHintBlock(syntax, session.hintLevel);
 
 			// Guard: hint insertion must not start the timer
 			isExtensionEditing = true;
@@ -749,9 +1553,6 @@ const uriHandler = vscode.window.registerUriHandler({
 			});
 			isExtensionEditing = false;
 
-			// PHASE 2: Track hint usage for practice data sync
-			hintsUsed++;
-
 			// Set context key to show hide hint button
 			await updateContextFlag('codeforgex.hintVisible', true);
 		}
@@ -766,58 +1567,11 @@ const uriHandler = vscode.window.registerUriHandler({
 				return;
 			}
 
-			const currentText = editor.document.getText();
-			const lines = currentText.split('\n');
-			const commentPrefix = editor.document.languageId === 'python' ? '# ' : '// ';
-			const commentChar = commentPrefix.trim(); // '#' or '//'
-
-			// Find the line that starts with "# Hint:" or "// Hint:"
-			let hintStartIndex = -1;
-			for (let i = 0; i < lines.length; i++) {
-				if (lines[i].trim().startsWith(commentPrefix + 'Hint:')) {
-					hintStartIndex = i;
-					break;
-				}
-			}
-
-			if (hintStartIndex === -1) {
+			if (session.displayMode === 'inFile' && !await removeHintBlock(editor)) {
 				vscode.window.showErrorMessage('Hint not found.');
 				return;
 			}
 
-			// Find end of hint block (consecutive comment lines)
-			let hintEndIndex = hintStartIndex;
-			for (let i = hintStartIndex + 1; i < lines.length; i++) {
-				const trimmedLine = lines[i].trim();
-				// Continue if line is empty or starts with comment character
-				if (trimmedLine === '' || trimmedLine.startsWith(commentChar)) {
-					hintEndIndex = i;
-					// Stop at blank line
-					if (trimmedLine === '') {
-						break;
-					}
-				} else {
-					// Non-comment line found, stop here
-					hintEndIndex = i - 1;
-					break;
-				}
-			}
-
-			// Remove the hint block
-			lines.splice(hintStartIndex, hintEndIndex - hintStartIndex + 1);
-			const newText = lines.join('\n');
-
-			// Guard: hint removal must not start the timer
-			isExtensionEditing = true;
-			await editor.edit(editBuilder => {
-				const fullRange = new vscode.Range(
-					editor.document.positionAt(0),
-					editor.document.positionAt(currentText.length)
-				);
-				editBuilder.replace(fullRange, newText);
-			});
-			isExtensionEditing = false;
-
 			await updateContextFlag('codeforgex.hintVisible', false);
 			vscode.window.showInformationMessage('Hint hidden.');
 		}
@@ -832,58 +1586,11 @@ const uriHandler = vscode.window.registerUriHandler({
 				return;
 			}
 
-			const currentText = editor.document.getText();
-			const lines = currentText.split('\n');
-			const commentPrefix = editor.document.languageId === 'python' ? '# ' : '// ';
-			const commentChar = commentPrefix.trim(); // '#' or '//'
-
-			// Find the line that starts with "# Hint:" or "// Hint:"
-			let hintStartIndex = -1;
-			for (let i = 0; i < lines.length; i++) {
-				if (lines[i].trim().startsWith(commentPrefix + 'Hint:')) {
-					hintStartIndex = i;
-					break;
-				}
-			}
-
-			if (hintStartIndex === -1) {
+			if (session.displayMode === 'inFile' && !await removeHintBlock(editor)) {
 				vscode.window.showErrorMessage('Hint not found.');
 				return;
 			}
 
-			// Find end of hint block (consecutive comment lines)
-			let hintEndIndex = hintStartIndex;
-			for (let i = hintStartIndex + 1; i < lines.length; i++) {
-				const trimmedLine = lines[i].trim();
-				// Continue if line is empty or starts with comment character
-				if (trimmedLine === '' || trimmedLine.startsWith(commentChar)) {
-					hintEndIndex = i;
-					// Stop at blank line
-					if (trimmedLine === '') {
-						break;
-					}
-				} else {
-					// Non-comment line found, stop here
-					hintEndIndex = i - 1;
-					break;
-				}
-			}
-
-			// Remove the hint block
-			lines.splice(hintStartIndex, hintEndIndex - hintStartIndex + 1);
-			const newText = lines.join('\n');
-
-			// Guard: hint removal must not start the timer
-			isExtensionEditing = true;
-			await editor.edit(editBuilder => {
-				const fullRange = new vscode.Range(
-					editor.document.positionAt(0),
-					editor.document.positionAt(currentText.length)
-				);
-				editBuilder.replace(fullRange, newText);
-			});
-			isExtensionEditing = false;
-
 			await updateContextFlag('codeforgex.hintVisible', false);
 			vscode.window.showInformationMessage('Hint removed.');
 		}
@@ -894,19 +1601,27 @@ const uriHandler = vscode.window.registerUriHandler({
 		async () => {
 
 			const editor = vscode.window.activeTextEditor;
-			if (!editor || !storedSolution) {
+			if (!editor || !session.solution) {
 				vscode.window.showInformationMessage('No solution available.');
 				return;
 			}
 
+			if (session.displayMode === 'panel') {
+				// PHASE 2: Track solution view for practice data sync
+				session.solutionViewed = true;
+				await updateContextFlag('codeforgex.solutionVisible', true);
+				problemPanel.show(session);
+				return;
+			}
+
 			const currentText = editor.document.getText();
 
-			if (currentText.includes(storedSolution)) {
+			if (currentText.includes(session.solution)) {
 				vscode.window.showInformationMessage('Solution already revealed.');
 				return;
 			}
 
-			const solutionContent = `\n${storedSolution}\n\n`;
+			const solutionContent = `\n${session.solution}\n\n`;
 
 			// Guard: solution insertion must not start the timer
 			isExtensionEditing = true;
@@ -919,7 +1634,7 @@ const uriHandler = vscode.window.registerUriHandler({
 			isExtensionEditing = false;
 
 			// PHASE 2: Track solution view for practice data sync
-			solutionViewed = true;
+			session.solutionViewed = true;
 
 			// Set context key to show explain and evaluate options
 			await updateContextFlag('codeforgex.solutionVisible', true);
@@ -928,190 +1643,207 @@ const uriHandler = vscode.window.registerUriHandler({
 
 	const evaluateCommand = vscode.commands.registerCommand(
 		'codeforgex.evaluateSolution',
-		async () => {
+		async (args?: unknown) => {
 			const editor = vscode.window.activeTextEditor;
 			if (!editor) {
 				vscode.window.showErrorMessage('No active file.');
 				return;
 			}
 
-			if (!storedSolution) {
+			if (!session.solution) {
 				vscode.window.showErrorMessage('No solution available for evaluation.');
 				return;
 			}
 
-			const userCode = editor.document.getText();
+			const regenerate = isRegenerate(args);
 			const languageId = editor.document.languageId;
-			const commentPrefix = languageId === 'python' ? '# ' : '// ';
+			const syntax = getCommentSyntax(languageId, editor.document.fileName);
+
+			// An earlier evaluation is only replaced when regenerating, and is
+			// never part of the code being evaluated
+			const lines = editor.document.getText().split('\n');
+			const previousBlock = session.displayMode === 'inFile' ? findEvaluationBlock(lines, syntax) : null;
+			if (previousBlock && !regenerate) {
+				vscode.window.showWarningMessage('Evaluation already exists. Remove it before running again.');
+				return;
+			}
+			const userCode = lines.filter((_, index) => !previousBlock || index < previousBlock[0] || index > previousBlock[1]).join('\n');
 
-			let evaluationResult: string;
+			let evaluation: CodeEvaluation;
+			let cached = false;
 
 			try {
-				evaluationResult = await vscode.window.withProgress(
-					{
-						location: vscode.ProgressLocation.Notification,
-						title: "Evaluating your code...",
-						cancellable: false
-					},
-					async () => {
-						return await evaluateCode(languageId, storedSolution!, userCode);
-					}
+				evaluation = await withAiProgress(
+					'Evaluating your code...',
+					options => evaluateCode(languageId, session.solution!, userCode, {
+						...options,
+						regenerate,
+						onCacheHit: () => { cached = true; }
+					}),
+					textSoFar => previewStringField(textSoFar, 'correctness')
 				);
 
-				// Parse evaluation response
-				const summaryMatch = evaluationResult.match(/Code Evaluation Summary:([\s\S]*?)(?=Suggestions:|$)/);
-				const suggestionsMatch = evaluationResult.match(/Suggestions:([\s\S]*?)$/);
+				if (!isStillActive(editor)) {
+					return;
+				}
 
-				const summary = summaryMatch ? summaryMatch[1].trim() : evaluationResult;
-				const suggestionsText = suggestionsMatch ? suggestionsMatch[1].trim() : '';
+				session.evaluation = evaluation;
 
-				// Check if evaluation already exists
-				const currentFullText = editor.document.getText();
-				if (currentFullText.includes('Code Evaluation Summary:')) {
-					vscode.window.showWarningMessage('Evaluation already exists. Remove it before running again.');
-					return;
+				if (session.displayMode === 'inFile') {
+					if (previousBlock) {
+						await removeEvaluationBlock(editor);
+					}
+
+					const summary = formatEvaluationSummary(evaluation);
+
+					// Insert summary at end of file
+					const summaryBlock =
+						`\n\n${commentLine(syntax, 'Evaluation:')}\n` +
+						commentLines(syntax, summary) +
+						'\n';
+
+					// Guard: evaluation insertion must not start the timer
+					isExtensionEditing = true;
+					await editor.edit(editBuilder => {
+						editBuilder.insert(
+							new vscode.Position(editor.document.lineCount, 0),
+							summaryBlock
+						);
+					});
+					isExtensionEditing = false;
 				}
 
-				// Insert summary at end of file
-				const summaryBlock =
-					`\n\n${commentPrefix}Evaluation:\n` +
-					summary
-						.split('\n')
-						.map(line => commentPrefix + (line.trim() ? line : ''))
-						.join('\n') +
-					'\n';
-
-				// Guard: evaluation insertion must not start the timer
-				isExtensionEditing = true;
-				await editor.edit(editBuilder => {
-					editBuilder.insert(
-						new vscode.Position(editor.document.lineCount, 0),
-						summaryBlock
-					);
-				});
-				isExtensionEditing = false;
+				// Suggestions go to the Problems panel, each with a Quick Fix,
+				// so the user's lines are never shifted by inserted comments
+				evaluationDiagnostics.publish(editor.document, evaluation);
 
-				// Set evaluation flag
 				await updateContextFlag('codeforgex.evaluationVisible', true);
 
-				if (suggestionsText.length > 0) {
-					const lineMatches = suggestionsText.matchAll(/LINE\s*(\d+):([\s\S]*?)(?=LINE\s*\d+:|$)/gi);
-					const suggestions = Array.from(lineMatches).map(match => ({
-						lineNumber: parseInt(match[1]),
-						content: match[2].trim()
-					}));
-
-					// Sort by line number descending to avoid offset issues
-					suggestions.sort((a, b) => b.lineNumber - a.lineNumber);
-
-					const updatedText = editor.document.getText();
-					const lines = updatedText.split('\n');
-
-					for (const suggestion of suggestions) {
-						const lineIndex = suggestion.lineNumber - 1;
-
-						if (lineIndex >= 0 && lineIndex < lines.length) {
-							// Check if suggestion already exists
-							if (!lines[lineIndex - 1]?.includes('Suggestion:')) {
-								const suggestionLines = suggestion.content
-									.split('\n')
-									.filter(line => line.trim().length > 0)
-									.map(line => commentPrefix + line.trim())
-									.join('\n');
-
-								const insertionPos = new vscode.Position(lineIndex, 0);
-
-								// Guard: each inline suggestion must not start the timer
-								isExtensionEditing = true;
-								await editor.edit(editBuilder => {
-									editBuilder.insert(insertionPos, suggestionLines + '\n');
-								});
-								isExtensionEditing = false;
-							}
-						}
-					}
+				if (session.displayMode === 'panel') {
+					problemPanel.show(session);
 				}
 
-				vscode.window.showInformationMessage('Code evaluation complete. Review suggestions in file.');
+				const message = evaluation.suggestions.length > 0
+					? `Code evaluation complete: ${evaluation.verdict}. Suggestions are listed in the Problems panel.`
+					: `Code evaluation complete: ${evaluation.verdict}.`;
 
-			} catch (error) {
-				vscode.window.showErrorMessage('Code evaluation failed. Please try again.');
-				console.error('Evaluation error:', error);
+				if (cached) {
+					void showCachedResult(message, 'codeforgex.evaluateSolution');
+				} else {
+					vscode.window.showInformationMessage(message);
+				}
+
+			} catch (error: any) {
+				showAiError('Code evaluation failed', error);
 			}
 		}
 	);
 
+	// Shows the solution's line explanations next to its lines in the
+	// file (in-file mode). Returns false when the solution is no longer
+	// in the file, e.g. because the user edited it.
+	function decorateSolution(document: vscode.TextDocument, explanations = session.explanations): boolean {
+		const solutionStartIndex = session.solution ? document.getText().indexOf(session.solution) : -1;
+		if (solutionStartIndex === -1) {
+			return false;
+		}
+
+		explanationDecorations.clear(document.uri, 'code');
+		explanationDecorations.add(
+			document,
+			document.positionAt(solutionStartIndex).line,
+			explanations,
+			'code'
+		);
+		return true;
+	}
+
+	// ─────────────────────────────────────────────────────────────
+	// EXPLAIN CODE
+	// Explains the revealed solution line by line. In-file sessions
+	// show the explanations as decorations beside the solution; panel
+	// sessions show them in the panel. The file is never edited.
+	// ─────────────────────────────────────────────────────────────
 	const explainCommand = vscode.commands.registerCommand(
 		'codeforgex.explainCode',
-		async () => {
-			console.log("Explain Code clicked");
-			vscode.window.showInformationMessage("Explain command triggered");
-
+		async (args?: unknown) => {
 			const editor = vscode.window.activeTextEditor;
 			if (!editor) {
 				vscode.window.showInformationMessage('No active file.');
 				return;
 			}
 
-			const fullText = editor.document.getText();
+			const solutionShown = session.displayMode === 'panel'
+				? session.solutionVisible
+				: editor.document.getText().includes(session.solution ?? '');
 
-			if (!storedSolution || !fullText.includes(storedSolution)) {
+			if (!session.solution || !solutionShown) {
 				vscode.window.showInformationMessage('Generate solution first.');
 				return;
 			}
 
-			try {
+			// Explanations fill in beside the solution as they stream in;
+			// this puts the previous ones back if the request is cancelled
+			const shownBefore = explanationDecorations.snapshot(editor.document.uri);
+			const showPreview = (explanations: LineExplanation[]) => {
+				if (session.displayMode === 'panel') {
+					problemPanel.show({ ...session, hasExplanation: true, explanations });
+				} else {
+					decorateSolution(editor.document, explanations);
+				}
+			};
 
-				const explainedCode = await vscode.window.withProgress(
-					{
-						location: vscode.ProgressLocation.Notification,
-						title: "Explaining code...",
-						cancellable: false
-					},
-					async () => {
-						return await explainCode(editor.document.languageId, storedSolution!);
-					}
-				);
+			let cached = false;
 
-				const currentText = editor.document.getText();
+			try {
+				const explanations = await withAiProgress(
+					'Explaining code...',
+					options => explainCode(editor.document.languageId, session.solution!, {
+						...options,
+						regenerate: isRegenerate(args),
+						onCacheHit: () => { cached = true; },
+						onText: textSoFar => {
+							options.onText?.(textSoFar);
+							showPreview(previewLineExplanations(textSoFar));
+						}
+					}),
+					textSoFar => `${previewLineExplanations(textSoFar).length} lines explained`
+				);
 
-				// ── FIX 4: Safe line-boundary insertion ──────────────────────
-				// Old approach: currentText.replace(storedSolution, explainedCode)
-				// Problem: raw string replace can land mid-line and break syntax.
-				// Fix: locate the exact character position of storedSolution,
-				// convert to VS Code positions, snap both ends to full line
-				// boundaries, then replace that clean Range. Never mid-line.
-				const solutionStartIndex = currentText.indexOf(storedSolution!);
-				if (solutionStartIndex === -1) {
-					vscode.window.showInformationMessage('Solution block not found in file.');
+				if (!isStillActive(editor)) {
+					explanationDecorations.restore(editor.document.uri, shownBefore);
 					return;
 				}
 
-				const solutionEndIndex = solutionStartIndex + storedSolution!.length;
-				const rawStartPos = editor.document.positionAt(solutionStartIndex);
-				const rawEndPos = editor.document.positionAt(solutionEndIndex);
+				session.explanations = explanations;
 
-				// Snap to line boundaries so insertion is always clean
-				const safeStart = new vscode.Position(rawStartPos.line, 0);
-				const safeEnd = new vscode.Position(
-					rawEndPos.line,
-					editor.document.lineAt(rawEndPos.line).text.length
-				);
-				const safeRange = new vscode.Range(safeStart, safeEnd);
+				if (session.displayMode === 'panel') {
+					await updateContextFlag('codeforgex.hasExplanation', true);
+					problemPanel.show(session);
+					if (cached) {
+						void showCachedResult('Solution explained.', 'codeforgex.explainCode');
+					}
+					return;
+				}
 
-				// Guard: explanation replacement must not start the timer
-				isExtensionEditing = true;
-				await editor.edit(editBuilder => {
-					editBuilder.replace(safeRange, explainedCode.trim());
-				});
-				isExtensionEditing = false;
+				if (!decorateSolution(editor.document)) {
+					vscode.window.showInformationMessage('Solution block not found in file.');
+					return;
+				}
 
-				// Store explanation and update context flag
-				storedExplanation = explainedCode.trim();
 				await updateContextFlag('codeforgex.hasExplanation', true);
+				const message = 'Explanations added beside the solution. Hover a line to read the full text.';
+				if (cached) {
+					void showCachedResult(message, 'codeforgex.explainCode');
+				} else {
+					vscode.window.showInformationMessage(message);
+				}
 
-			} catch (error) {
-				vscode.window.showErrorMessage('Explanation failed.');
+			} catch (error: any) {
+				// Drop the partial preview; a failed request shows nothing either
+				explanationDecorations.restore(editor.document.uri, shownBefore);
+				problemPanel.update(session);
+				showAiError('Explanation failed', error);
 			}
 		}
 	);
@@ -1120,35 +1852,14 @@ const uriHandler = vscode.window.registerUriHandler({
 		'codeforgex.removeExplanation',
 		async () => {
 			const editor = vscode.window.activeTextEditor;
-			if (!editor || !storedExplanation) {
+			if (!editor || !session.hasExplanation) {
 				vscode.window.showInformationMessage('No explanation to remove.');
 				return;
 			}
 
-			const currentText = editor.document.getText();
-
-			// Revert to stored solution
-			if (storedSolution && currentText.includes(storedExplanation)) {
-				const revertedText = currentText.replace(
-					storedExplanation,
-					storedSolution
-				);
-
-				// Guard: revert replacement must not start the timer
-				isExtensionEditing = true;
-				await editor.edit(editBuilder => {
-					const fullRange = new vscode.Range(
-						editor.document.positionAt(0),
-						editor.document.positionAt(currentText.length)
-					);
-					editBuilder.replace(fullRange, revertedText);
-				});
-				isExtensionEditing = false;
-
-				// Clear explanation and update context flag
-				storedExplanation = null;
-				await updateContextFlag('codeforgex.hasExplanation', false);
-			}
+			explanationDecorations.clear(editor.document.uri, 'code');
+			session.explanations = [];
+			await updateContextFlag('codeforgex.hasExplanation', false);
 		}
 	);
 
@@ -1161,63 +1872,123 @@ const uriHandler = vscode.window.registerUriHandler({
 				return;
 			}
 
-			const currentText = editor.document.getText();
-			const lines = currentText.split('\n');
-			const commentPrefix = editor.document.languageId === 'python' ? '# ' : '// ';
-			const commentChar = commentPrefix.trim(); // '#' or '//'
-
-			// Find the line that starts with "# Evaluation:" or "// Evaluation:"
-			let evalStartIndex = -1;
-			for (let i = 0; i < lines.length; i++) {
-				if (lines[i].trim().startsWith(commentPrefix + 'Evaluation:')) {
-					evalStartIndex = i;
-					break;
-				}
-			}
+			evaluationDiagnostics.clear(editor.document.uri);
 
-			if (evalStartIndex === -1) {
-				vscode.window.showErrorMessage('Evaluation not found.');
+			if (session.displayMode === 'panel') {
+				session.evaluation = null;
+				await updateContextFlag('codeforgex.evaluationVisible', false);
+				vscode.window.showInformationMessage('Evaluation removed.');
 				return;
 			}
 
-			// Find end of evaluation block (consecutive comment lines)
-			let evalEndIndex = evalStartIndex;
-			for (let i = evalStartIndex + 1; i < lines.length; i++) {
-				const trimmedLine = lines[i].trim();
-				// Continue if line is empty or starts with comment character
-				if (trimmedLine === '' || trimmedLine.startsWith(commentChar)) {
-					evalEndIndex = i;
-					// Stop at blank line
-					if (trimmedLine === '') {
-						break;
-					}
-				} else {
-					// Non-comment line found, stop here
-					evalEndIndex = i - 1;
-					break;
-				}
+			if (!await removeEvaluationBlock(editor)) {
+				vscode.window.showErrorMessage('Evaluation not found.');
+				return;
 			}
 
-			// Remove the evaluation block
-			lines.splice(evalStartIndex, evalEndIndex - evalStartIndex + 1);
-			const newText = lines.join('\n');
-
-			// Guard: evaluation removal must not start the timer
-			isExtensionEditing = true;
-			await editor.edit(editBuilder => {
-				const fullRange = new vscode.Range(
-					editor.document.positionAt(0),
-					editor.document.positionAt(currentText.length)
-				);
-				editBuilder.replace(fullRange, newText);
-			});
-			isExtensionEditing = false;
-
 			await updateContextFlag('codeforgex.evaluationVisible', false);
 			vscode.window.showInformationMessage('Evaluation removed.');
 		}
 	);
 
+	// ─────────────────────────────────────────────────────────────
+	// Ends the practice session after a successful run or submit:
+	// stops the timer, records the session in the local history and
+	// sends it to the backend. A submit passes the judge's verdict;
+	// otherwise the last evaluation's verdict, if any, is recorded.
+	// A panel problem is then cleared, so Start Practice offers a new one.
+	// Does nothing if the timer was never started by real typing.
+	// ─────────────────────────────────────────────────────────────
+	function completePractice(judged: EvaluationVerdict | null = null): void {
+		if (!session.timerStarted) {
+			return;
+		}
+
+		settleAway();
+		const seconds = practiceTimer.getSeconds();
+		const finalTime = practiceTimer.stop();
+		session.timerStarted = false;
+		vscode.window.showInformationMessage(
+			`Practice completed in ${finalTime}`
+		);
+
+		const editor = vscode.window.activeTextEditor;
+		const language = editor?.document.languageId ?? 'unknown';
+		const question = session.question ?? 'Practice session';
+		const verdict = judged ?? session.evaluation?.verdict ?? null;
+
+		const data: PracticeData = {
+			sessionId: randomUUID(),
+			question: question,
+			topics: session.topics.length > 0 ? session.topics : [GENERAL_TOPIC],
+			timeTaken: finalTime,
+			activeSeconds: seconds,
+			idleSeconds: session.idleSeconds,
+			hintsUsed: session.hintsUsed,
+			hintLevel: session.hintLevel,
+			solutionViewed: session.solutionViewed,
+			passRate: session.passRate,
+			withinBudget: session.timeLimitSeconds === null ? null : seconds <= session.timeLimitSeconds,
+			language: language,
+			date: new Date().toISOString()
+		};
+
+		practiceHistory
+			.add({ ...data, difficulty: session.difficulty, seconds, verdict })
+			.then(() => statsDashboard.update(computeStats(practiceHistory.all())));
+
+		reviewScheduler
+			.record({
+				problem: session.question
+					? { question: session.question, hints: session.hints, solution: session.solution ?? '', tests: session.tests }
+					: null,
+				topics: data.topics,
+				difficulty: session.difficulty,
+				language: language,
+				seconds: seconds,
+				hintLevel: session.hintLevel,
+				solutionViewed: session.solutionViewed,
+				verdict: verdict,
+				reviewOf: session.reviewOf
+			})
+			.then(updateReviewBadge);
+		session.reviewOf = null;
+		session.budgetExpired = false;
+		session.idleSeconds = 0;
+
+		sendPracticeData(context, data); // intentionally not awaited — fire and forget, don't block UI
+
+		persistSession();
+
+		if (session.displayMode === 'panel') {
+			void clearProblem();
+		}
+	}
+
+	// Forgets the current problem so the next Start Practice generates a
+	// new one. Panel sessions keep nothing in the file, so this is the
+	// only way they get back to a fresh start; in-file sessions are reset
+	// by deleting the question from the file (see syncFlagsFromFile).
+	async function clearProblem(): Promise<void> {
+		const uri = vscode.Uri.parse(session.uri);
+
+		// Time away from an abandoned problem counts for nothing
+		idleMonitor.settle();
+		practiceTimer.reset();
+		practiceTimer.setTimeLimit(null);
+		explanationDecorations.clear(uri, 'code');
+		explanationDecorations.clear(uri, 'selection');
+		evaluationDiagnostics.clear(uri);
+
+		Object.assign(session, { ...createSession(uri), displayMode: session.displayMode });
+
+		await updateContextFlag('codeforgex.hintVisible', false);
+		await updateContextFlag('codeforgex.solutionVisible', false);
+		await updateContextFlag('codeforgex.hasExplanation', false);
+		await updateContextFlag('codeforgex.evaluationVisible', false);
+		await updateContextFlag('codeforgex.hasQuestion', false);
+	}
+
 	// ─────────────────────────────────────────────────────────────
 	// RUN COMMAND
 	// isExtensionEditing wraps runActiveFile() to block the
@@ -1226,41 +1997,25 @@ const uriHandler = vscode.window.registerUriHandler({
 	const runCommand = vscode.commands.registerCommand(
 		'codeforgex.run',
 		async () => {
+			idleMonitor.activity();
 
 			// Block the save() inside runActiveFile from triggering the timer
+			let result: RunResult;
 			isExtensionEditing = true;
-			const result = await runActiveFile();
-			isExtensionEditing = false;
+			try {
+				result = await runActiveFile();
+			} finally {
+				isExtensionEditing = false;
+			}
 
-			if (result.success) {
-				// Stop timer ONLY if it was actually started by real user typing
-				if (timerStarted) {
-					const finalTime = practiceTimer.stop();
-					timerStarted = false;
-					vscode.window.showInformationMessage(
-						`Practice completed in ${finalTime}`
-					);
+			// Captured mode: show what the program printed and how it ended
+			if (result.exitCode !== undefined) {
+				showCapturedRun(result);
+			}
 
-					// ─────────────────────────────────────────────────────
-					// PHASE 2: Send practice data to backend after success.
-					// All session data is available here in extension.ts —
-					// no changes needed in runService.ts.
-					// ─────────────────────────────────────────────────────
-					const editor = vscode.window.activeTextEditor;
-					const language = editor?.document.languageId ?? 'unknown';
-					const question = storedSolution
-						? (storedHint ?? 'Practice session')
-						: 'Practice session';
-
-					sendPracticeData(context, {
-						question: question,
-						timeTaken: finalTime,
-						hintsUsed: hintsUsed,
-						solutionViewed: solutionViewed,
-						language: language,
-						date: new Date().toISOString()
-					}); // intentionally not awaited — fire and forget, don't block UI
-				}
+			// Terminal mode always reports success; captured mode only on exit code 0
+			if (result.success) {
+				completePractice();
 			} else {
 				vscode.window.showErrorMessage(
 					result.error || "Execution failed."
@@ -1269,15 +2024,142 @@ const uriHandler = vscode.window.registerUriHandler({
 		}
 	);
 
+	function showCapturedRun(result: RunResult): void {
+		outputChannel.clear();
+
+		if (result.output) {
+			outputChannel.append(result.output);
+		}
+		if (result.stderr) {
+			outputChannel.appendLine('');
+			outputChannel.appendLine('[stderr]');
+			outputChannel.append(result.stderr);
+		}
+
+		outputChannel.appendLine('');
+		outputChannel.appendLine(
+			`[${result.verdict ?? 'OK'} · exit code ${result.exitCode ?? 'none'} · ${result.durationMs ?? 0} ms]`
+		);
+		outputChannel.show(true);
+	}
+
+	// ─────────────────────────────────────────────────────────────
+	// SUBMIT COMMAND
+	// Runs the user's code against the generated test cases locally.
+	// Visible cases show input/expected/actual; hidden cases only
+	// report pass/fail. All passing completes the practice session.
+	// ─────────────────────────────────────────────────────────────
+	const submitCommand = vscode.commands.registerCommand(
+		'codeforgex.submit',
+		async () => {
+			idleMonitor.activity();
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				vscode.window.showErrorMessage('No active file.');
+				return;
+			}
+
+			if (session.tests.length === 0) {
+				vscode.window.showInformationMessage('No test cases available for this problem.');
+				return;
+			}
+
+			// Block the save from triggering the timer
+			isExtensionEditing = true;
+			try {
+				await editor.document.save();
+			} finally {
+				isExtensionEditing = false;
+			}
+
+			let report: JudgeReport;
+			try {
+				report = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: "Running test cases...",
+						cancellable: false
+					},
+					async () => {
+						return await judgeFile(
+							editor.document.languageId,
+							editor.document.fileName,
+							session.tests,
+							getSandboxLimits()
+						);
+					}
+				);
+			} catch (error: any) {
+				vscode.window.showErrorMessage(error?.message || 'Submit failed.');
+				return;
+			}
+
+			if (!isStillActive(editor)) {
+				return;
+			}
+
+			session.passRate = report.passRate;
+			persistSession();
+			showJudgeReport(report);
+
+			if (report.passed === report.total) {
+				vscode.window.showInformationMessage(`All ${report.total} tests passed!`);
+				completePractice(judgeVerdict(report));
+
+				// Solved without the timer running — the problem is still done
+				if (session.displayMode === 'panel' && session.hasQuestion) {
+					await clearProblem();
+				}
+			} else {
+				vscode.window.showWarningMessage(
+					`Passed ${report.passed}/${report.total} tests. See the CodeForgeX output for details.`
+				);
+			}
+		}
+	);
+
+	function showJudgeReport(report: JudgeReport): void {
+		outputChannel.clear();
+		outputChannel.appendLine(`Submission: ${report.passed}/${report.total} tests passed`);
+		outputChannel.appendLine('');
+
+		if (report.compileError) {
+			outputChannel.appendLine('Compilation failed:');
+			outputChannel.appendLine(report.compileError);
+		}
+
+		for (const result of report.results) {
+			// Failures caused by a limit or crash show the verdict instead of a bare FAIL
+			const status = result.passed ? 'PASS' : (result.verdict === 'OK' ? 'FAIL' : result.verdict);
+
+			if (result.hidden) {
+				outputChannel.appendLine(`Test ${result.index} (hidden): ${status}`);
+				continue;
+			}
+
+			outputChannel.appendLine(`Test ${result.index}: ${status} (${result.durationMs} ms)`);
+			if (!result.passed) {
+				outputChannel.appendLine(`  Input:    ${result.input}`);
+				outputChannel.appendLine(`  Expected: ${result.expectedOutput.trim()}`);
+				outputChannel.appendLine(`  Actual:   ${result.actualOutput.trim()}`);
+				if (result.error) {
+					outputChannel.appendLine(`  Error:    ${result.error}`);
+				}
+			}
+		}
+
+		outputChannel.show(true);
+	}
+
 	// ─────────────────────────────────────────────────────────────
 	// FEATURE 2: EXPLAIN SELECTION
-	// Explains only the currently selected lines of code.
-	// Inserts comment-per-line explanations above each selected line.
-	// Tracked separately from storedExplanation (full-solution explain).
+	// Explains only the currently selected lines of code, shown as
+	// decorations and hovers on those lines. Tracked separately from
+	// the full-solution explanation so each can be removed on its own.
 	// ─────────────────────────────────────────────────────────────
 	const explainSelectionCommand = vscode.commands.registerCommand(
 		'codeforgex.explainSelection',
-		async () => {
+		async (args?: unknown) => {
 			const editor = vscode.window.activeTextEditor;
 			if (!editor) {
 				vscode.window.showInformationMessage('No active file.');
@@ -1290,13 +2172,8 @@ const uriHandler = vscode.window.registerUriHandler({
 				return;
 			}
 
-			// ── BUG 1 FIX: Expand selection to full line boundaries ───────
-			// If user selects a partial line (e.g. just "in" from "for char in s:"),
-			// replacing that mid-line token with a multi-line explained block
-			// breaks indentation and splits the line, causing syntax errors.
-			// Fix: always expand to complete lines — from col 0 of the first
-			// selected line to the end of the last selected line.
-			// This means the AI sees and replaces complete lines only.
+			// Always explain complete lines — a partial selection such as
+			// "in" from "for char in s:" means nothing on its own.
 			const startLine = selection.start.line;
 			const endLine = selection.end.line;
 			const fullLineRange = new vscode.Range(
@@ -1304,84 +2181,272 @@ const uriHandler = vscode.window.registerUriHandler({
 				new vscode.Position(endLine, editor.document.lineAt(endLine).text.length)
 			);
 
-			// Capture the FULL LINES of selected text to send to AI
 			const selectedText = editor.document.getText(fullLineRange);
 			const languageId = editor.document.languageId;
 
-			let explainedBlock: string;
+			// Lines beyond the selection would belong to unrelated code
+			const shownBefore = explanationDecorations.snapshot(editor.document.uri);
+			const showExplanations = (explanations: LineExplanation[]) => {
+				explanationDecorations.restore(editor.document.uri, shownBefore);
+				explanationDecorations.add(
+					editor.document,
+					startLine,
+					explanations.filter(entry => entry.line <= endLine - startLine + 1),
+					'selection'
+				);
+			};
+
+			let explanations: LineExplanation[];
+			let cached = false;
 
 			try {
-				explainedBlock = await vscode.window.withProgress(
-					{
-						location: vscode.ProgressLocation.Notification,
-						title: "Explaining selection...",
-						cancellable: false
-					},
-					async () => {
-						return await explainSelection(languageId, selectedText);
-					}
+				explanations = await withAiProgress(
+					'Explaining selection...',
+					options => explainSelection(languageId, selectedText, {
+						...options,
+						regenerate: isRegenerate(args),
+						onCacheHit: () => { cached = true; },
+						onText: textSoFar => {
+							options.onText?.(textSoFar);
+							showExplanations(previewLineExplanations(textSoFar));
+						}
+					}),
+					textSoFar => `${previewLineExplanations(textSoFar).length} lines explained`
 				);
-			} catch {
-				vscode.window.showErrorMessage('Explanation failed. Please try again.');
+			} catch (error: any) {
+				// Drop the partial preview; a failed request shows nothing either
+				explanationDecorations.restore(editor.document.uri, shownBefore);
+				showAiError('Explanation failed', error);
 				return;
 			}
 
-			// On FIRST explain: save a snapshot of the full file before any changes.
-			// This snapshot is what "Remove Selection Explanation" restores.
-			if (!hasSelectionExplanationFlag) {
-				selectionFileSnapshot = editor.document.getText();
+			if (!isStillActive(editor)) {
+				explanationDecorations.restore(editor.document.uri, shownBefore);
+				return;
 			}
 
-			// Track this explained block for auto-detection of manual deletion
-			selectionExplainedBlocks.push(explainedBlock);
-			hasSelectionExplanationFlag = true;
+			showExplanations(explanations);
 
-			// Replace the full-line range (not the original partial selection)
-			// so the explained block always lands on clean line boundaries
-			isExtensionEditing = true;
-			await editor.edit(editBuilder => {
-				editBuilder.replace(fullLineRange, explainedBlock);
-			});
-			isExtensionEditing = false;
-
-			vscode.window.showInformationMessage('Selection explained. Select more to explain again, or use Remove Selection Explanation to remove all.');
+			const message = 'Selection explained. Hover a line to read the full text, or use Remove Selection Explanation to remove all.';
+			if (cached) {
+				// Regenerate explains whatever is selected when it is clicked
+				void showCachedResult(message, 'codeforgex.explainSelection');
+			} else {
+				vscode.window.showInformationMessage(message);
+			}
 		}
 	);
 
 	// ─────────────────────────────────────────────────────────────
 	// FEATURE 2: REMOVE SELECTION EXPLANATION
-	// Reverts the explained block back to the original selected code.
+	// Clears every selection explanation in the file. The document is
+	// untouched, so edits made since explaining are kept.
 	// ─────────────────────────────────────────────────────────────
 	const removeSelectionExplanationCommand = vscode.commands.registerCommand(
 		'codeforgex.removeSelectionExplanation',
 		async () => {
 			const editor = vscode.window.activeTextEditor;
-			if (!editor || !hasSelectionExplanationFlag || !selectionFileSnapshot) {
+			if (!editor || !explanationDecorations.has(editor.document.uri, 'selection')) {
 				vscode.window.showInformationMessage('No selection explanation to remove.');
 				return;
 			}
 
-			// Restore the full file snapshot taken before the first explain.
-			// This removes ALL accumulated selection explanations at once,
-			// regardless of how many times the user selected and explained.
-			isExtensionEditing = true;
-			await editor.edit(editBuilder => {
-				const fullRange = new vscode.Range(
-					editor.document.positionAt(0),
-					editor.document.positionAt(editor.document.getText().length)
-				);
-				editBuilder.replace(fullRange, selectionFileSnapshot!);
+			explanationDecorations.clear(editor.document.uri, 'selection');
+			vscode.window.showInformationMessage('All selection explanations removed.');
+		}
+	);
+
+	// ─────────────────────────────────────────────────────────────
+	// SAVE PROBLEM TO BANK
+	// Copies the current question, hints, solution and tests into the
+	// user's offline problem bank so it can be served without the AI.
+	// ─────────────────────────────────────────────────────────────
+	const saveToBankCommand = vscode.commands.registerCommand(
+		'codeforgex.saveProblemToBank',
+		async () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor || !session.hasQuestion || !session.question) {
+				vscode.window.showInformationMessage('No practice question to save.');
+				return;
+			}
+
+			const title = session.question.split('\n')[0].slice(0, 60);
+			const solutions: Record<string, string> = {};
+			if (session.solution) {
+				solutions[editor.document.languageId] = session.solution;
+			}
+
+			try {
+				await problemBank.add({
+					id: `user-${Date.now()}`,
+					title,
+					topic: session.topics.join(', ') || GENERAL_TOPIC,
+					difficulty: (session.difficulty ?? 'Medium') as Difficulty,
+					question: session.question,
+					hints: session.hints,
+					solutions,
+					tests: session.tests,
+					source: 'user'
+				});
+			} catch (error: any) {
+				vscode.window.showErrorMessage(`Could not save problem: ${error?.message ?? 'unknown error'}`);
+				return;
+			}
+
+			vscode.window.showInformationMessage(`Saved "${title}" to your offline problem bank.`);
+		}
+	);
+
+	// Re-opens the problem panel after the user closed it
+	const showPanelCommand = vscode.commands.registerCommand(
+		'codeforgex.showProblemPanel',
+		() => {
+			problemPanel.show(session);
+		}
+	);
+
+	// Shows how many practice sessions are still waiting to reach the backend
+	const pendingSyncCommand = vscode.commands.registerCommand(
+		'codeforgex.showPendingSync',
+		async () => {
+			const pending = new SyncQueue(context.globalState).count();
+
+			if (pending === 0) {
+				vscode.window.showInformationMessage('CodeForgeX: All practice sessions are synced.');
+				return;
+			}
+
+			const choice = await vscode.window.showInformationMessage(
+				`CodeForgeX: ${pending} practice session${pending === 1 ? ' is' : 's are'} waiting to sync.`,
+				'Retry Now'
+			);
+
+			if (choice === 'Retry Now') {
+				const remaining = await flushPendingPracticeData(context, true);
+				if (remaining > 0) {
+					vscode.window.showWarningMessage(`CodeForgeX: ${remaining} still pending. Check your connection or login.`);
+				}
+			}
+		}
+	);
+
+	// Practice statistics from the local history — no backend needed
+	const showStatsCommand = vscode.commands.registerCommand(
+		'codeforgex.showStatistics',
+		() => {
+			statsDashboard.show(computeStats(practiceHistory.all()));
+		}
+	);
+
+	// Difficulty to start a problem on these topics at: recommended from
+	// the practice history in adaptive mode, otherwise the configured default
+	function suggestDifficulty(topics: string[]): { difficulty: Difficulty; description: string } {
+		const defaultDifficulty = getDefaultDifficulty();
+		if (!isAdaptiveDifficultyEnabled()) {
+			return { difficulty: defaultDifficulty, description: 'default' };
+		}
+
+		const recommendation = recommendDifficulty(practiceHistory.all(), topics, defaultDifficulty);
+		return { difficulty: recommendation.difficulty, description: `recommended: ${recommendation.reason}` };
+	}
+
+	// ─────────────────────────────────────────────────────────────
+	// REVIEW DUE
+	// Lists problems and topics the scheduler says are due. A problem
+	// can be re-opened as it was or practised as a new variant; a topic
+	// gets a new problem. Either way it opens in a new temporary file and
+	// the completed session continues the item's schedule.
+	// ─────────────────────────────────────────────────────────────
+	const reviewDueCommand = vscode.commands.registerCommand(
+		'codeforgex.reviewDue',
+		async () => {
+			const due = reviewScheduler.due();
+			if (due.length === 0) {
+				vscode.window.showInformationMessage('CodeForgeX: Nothing to review right now.');
+				return;
+			}
+
+			const picked = await vscode.window.showQuickPick(
+				due.map(item => ({
+					label: `${item.kind === 'problem' ? '$(file-code)' : '$(tag)'} ${item.title}`,
+					description: [item.kind === 'problem' ? describeTopics(item.topics) : 'Topic', item.difficulty]
+						.filter(Boolean)
+						.join(' · '),
+					detail: describeDueDate(item),
+					item
+				})),
+				{ placeHolder: 'Select a review', matchOnDescription: true }
+			);
+			if (!picked) {
+				return;
+			}
+
+			const item = picked.item;
+			const canReopen = item.kind === 'problem' && item.problem !== null;
+			const action = await vscode.window.showQuickPick(
+				canReopen
+					? ['Re-open Problem', 'Practice a Variant', 'Review Tomorrow']
+					: ['Practice a New Problem', 'Review Tomorrow'],
+				{ placeHolder: item.title }
+			);
+			if (!action) {
+				return;
+			}
+
+			if (action === 'Review Tomorrow') {
+				await reviewScheduler.postpone(item.key, 1);
+				updateReviewBadge();
+				return;
+			}
+
+			await openReviewPractice(item, {
+				topics: item.topics.length > 0 ? item.topics : [GENERAL_TOPIC],
+				difficulty: item.difficulty ?? getDefaultDifficulty(),
+				reviewOf: item.key,
+				problem: action === 'Re-open Problem' ? item.problem ?? undefined : undefined,
+				variantOf: action === 'Practice a Variant' ? item.problem?.question : undefined
 			});
-			isExtensionEditing = false;
+		}
+	);
 
-			// Clear all selection explanation state
-			hasSelectionExplanationFlag = false;
-			selectionExplainedBlocks = [];
-			selectionFileSnapshot = null;
+	async function openReviewPractice(item: ReviewItem, request: PracticeRequest): Promise<void> {
+		let document: vscode.TextDocument;
+		try {
+			document = await vscode.workspace.openTextDocument(await createReviewFile(item.language));
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`CodeForgeX: Could not create a file for the review: ${error?.message ?? error}`);
+			return;
+		}
 
-			vscode.window.showInformationMessage('All selection explanations removed.');
+		await vscode.window.showTextDocument(document);
+		switchSession(document);
+		await vscode.commands.executeCommand('codeforgex.startPractice', request);
+	}
+
+	// Empty file on disk for a review, so Run and Submit can save it
+	// without a Save As dialog and the session keeps its URI. Each review
+	// gets its own temporary folder; the file is named Main so Java's
+	// class name rule is easy to follow. Languages without a known
+	// extension get a text file, and startPractice switches it to the
+	// default practice language.
+	async function createReviewFile(languageId: string): Promise<vscode.Uri> {
+		const definition = findLanguageDefinition(getLanguageDefinitions(), languageId, '');
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'codeforgex-review-'));
+		const file = path.join(dir, `Main${definition?.extensions[0] ?? '.txt'}`);
+		await fs.writeFile(file, '');
+		return vscode.Uri.file(file);
+	}
+
+	// Forgets every cached explanation and evaluation
+	const clearAiCacheCommand = vscode.commands.registerCommand(
+		'codeforgex.clearAiCache',
+		async () => {
+			const count = aiCache.size();
+			await aiCache.clear();
+			vscode.window.showInformationMessage(`CodeForgeX: Cleared ${count} cached AI answer${count === 1 ? '' : 's'}.`);
 		}
 	);
+
 	const checkTokenCommand = vscode.commands.registerCommand(
 	'codeforgex.checkToken',
 	async () => {
@@ -1405,11 +2470,34 @@ const uriHandler = vscode.window.registerUriHandler({
 		removeExplanationCommand,
 		removeEvaluationCommand,
 		runCommand,
+		submitCommand,
 		timerControlCommand,
 		explainSelectionCommand,
 		removeSelectionExplanationCommand,
+		saveToBankCommand,
+		showPanelCommand,
+		pendingSyncCommand,
+		showStatsCommand,
+		reviewDueCommand,
+		clearAiCacheCommand,
 		checkTokenCommand
 	);
 }
 
-export function deactivate() {}
\ No newline at end of file
+export function deactivate(): Thenable<void> | undefined {
+	stopPendingSync();
+
+	// Save the live timer so the next window picks up where this one stopped
+	if (!sessions || !practiceTimer) {
+		return undefined;
+	}
+	// A running timer is saved as running, so a quick reload counts the time in between
+	session.timer = practiceTimer.snapshot();
+	session.timerRunning = practiceTimer.isActive() || session.autoPaused;
+	// Keep the time away so far; the next window starts the timer again
+	if (session.autoPaused) {
+		session.idleSeconds += idleMonitor.settle();
+		session.autoPaused = false;
+	}
+	return sessions.save();
+}
\ No newline at end of file
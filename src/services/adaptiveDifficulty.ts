@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { PracticeRecord } from './historyService';
+import { Difficulty } from './problemBank';
+import { expectedSeconds } from './reviewScheduler';
+import { parentTopic, describeTopics } from './topics';
+
+const LEVELS: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Sessions at the current level that decide whether to move
+const DECIDING_SESSIONS = 2;
+
+// Deepest hint that still counts as solving it yourself (1 = nudge)
+const MAX_COMFORTABLE_HINT_LEVEL = 1;
+
+export interface DifficultyRecommendation {
+    difficulty: Difficulty;
+    reason: string;         // short, shown next to the level in the picker
+}
+
+/**
+ * Whether "codeforgex.practice.adaptiveDifficulty" is on.
+ */
+export function isAdaptiveDifficultyEnabled(): boolean {
+    return vscode.workspace
+        .getConfiguration('codeforgex.practice')
+        .get<boolean>('adaptiveDifficulty', true);
+}
+
+type SessionResult = 'comfortable' | 'struggled' | 'mixed';
+
+/**
+ * How one session went: viewing the solution, needing the approach
+ * hint or deeper, a "Needs Improvement" verdict or taking more than
+ * 1.5x the expected time is a struggle; a fast, clean solve with at
+ * most a nudge and no weak verdict is comfortable.
+ */
+export function classifySession(record: PracticeRecord): SessionResult {
+    const expected = expectedSeconds(record.difficulty);
+    const verdict = record.verdict ?? null;
+
+    if (
+        record.solutionViewed ||
+        record.hintLevel > MAX_COMFORTABLE_HINT_LEVEL ||
+        verdict === 'Needs Improvement' ||
+        record.seconds > 1.5 * expected
+    ) {
+        return 'struggled';
+    }
+    if (verdict !== 'Partially Correct' && record.seconds <= expected) {
+        return 'comfortable';
+    }
+    return 'mixed';
+}
+
+/**
+ * Suggests the next difficulty for a topic from the most recent
+ * sessions that share a top-level topic with it. Two comfortable
+ * sessions in a row at the current level move up a level, two
+ * struggles move down; anything else stays.
+ */
+export function recommendDifficulty(
+    records: PracticeRecord[],
+    topics: string[],
+    fallback: Difficulty
+): DifficultyRecommendation {
+    const wanted = new Set(topics.map(parentTopic));
+    const related = records
+        .filter(record => record.topics.some(topic => wanted.has(parentTopic(topic))))
+        .sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+
+    const name = describeTopics(topics);
+    const latestLevel = related.find(record => isLevel(record.difficulty))?.difficulty as Difficulty | undefined;
+    if (!latestLevel) {
+        return { difficulty: fallback, reason: `your default; no ${name} history yet` };
+    }
+
+    const atLevel = related
+        .filter(record => record.difficulty === latestLevel)
+        .slice(0, DECIDING_SESSIONS)
+        .map(classifySession);
+    const index = LEVELS.indexOf(latestLevel);
+    const count = atLevel.length;
+
+    if (count === DECIDING_SESSIONS && atLevel.every(result => result === 'comfortable')) {
+        return index < LEVELS.length - 1
+            ? { difficulty: LEVELS[index + 1], reason: `last ${count} ${latestLevel} solved quickly without much help` }
+            : { difficulty: latestLevel, reason: `comfortable at ${latestLevel}` };
+    }
+    if (count === DECIDING_SESSIONS && atLevel.every(result => result === 'struggled')) {
+        return index > 0
+            ? { difficulty: LEVELS[index - 1], reason: `last ${count} ${latestLevel} needed deep hints, the solution or a lot of time` }
+            : { difficulty: latestLevel, reason: `still building up at ${latestLevel}` };
+    }
+    return {
+        difficulty: latestLevel,
+        reason: count < DECIDING_SESSIONS ? `only ${count} recent ${latestLevel} session` : `mixed results at ${latestLevel}`
+    };
+}
+
+function isLevel(difficulty: string | null): boolean {
+    return LEVELS.includes(difficulty as Difficulty);
+}
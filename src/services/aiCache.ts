@@ -0,0 +1,133 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { AiTask } from "./aiProvider";
+
+// globalState key — answers are reused across workspaces
+const CACHE_KEY = "codeforgex.aiCache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AiCacheLimits {
+    maxEntries: number;     // 0 turns the cache off
+    ttlDays: number;
+}
+
+interface CacheEntry {
+    value: unknown;
+    storedAt: number;       // epoch ms, for expiry
+    usedAt: number;         // epoch ms, for evicting the least recently used
+}
+
+/**
+ * Limits from the "codeforgex.ai.cache.*" settings, read on every use.
+ */
+export function getAiCacheLimits(): AiCacheLimits {
+    const config = vscode.workspace.getConfiguration("codeforgex.ai.cache");
+    return {
+        maxEntries: Math.max(0, config.get<number>("maxEntries", 200)),
+        ttlDays: Math.max(0, config.get<number>("ttlDays", 30))
+    };
+}
+
+/**
+ * Code as far as the answer is concerned: line endings, trailing
+ * whitespace, indentation width and blank lines at the end do not
+ * change what an explanation or evaluation says, so they do not change
+ * the key. Other blank lines do — answers point at line numbers.
+ */
+export function normalizeCode(code: string): string {
+    return code
+        .replace(/\r\n?/g, "\n")
+        .split("\n")
+        .map(line => line.replace(/\s+$/, "").replace(/^[ \t]+/, indent => " ".repeat(indent.replace(/\t/g, "    ").length)))
+        .join("\n")
+        .replace(/\n+$/, "");
+}
+
+/**
+ * Cache key for one request: the prompt type, the language and a
+ * hash of the normalized code. Requests that depend on more than one
+ * piece of code (an evaluation also sees the reference solution) pass
+ * them all.
+ */
+export function aiCacheKey(task: AiTask, language: string, ...code: string[]): string {
+    const hash = createHash("sha256");
+    for (const piece of code) {
+        hash.update(normalizeCode(piece)).update("\0");
+    }
+    return `${task}:${language}:${hash.digest("hex")}`;
+}
+
+/**
+ * Persistent store of validated AI answers, so explaining the same
+ * block or evaluating unchanged code again costs no request. Entries
+ * expire after ttlDays and the least recently used are dropped once
+ * there are more than maxEntries.
+ */
+export class AiResponseCache {
+
+    constructor(
+        private state: vscode.Memento,
+        private limits: () => AiCacheLimits = getAiCacheLimits
+    ) {}
+
+    get<T>(key: string): T | undefined {
+        const { maxEntries, ttlDays } = this.limits();
+        const entry = this.entries()[key];
+        if (maxEntries === 0 || !entry || Date.now() - entry.storedAt > ttlDays * DAY_MS) {
+            return undefined;
+        }
+
+        void this.state.update(CACHE_KEY, this.withEntry(key, { ...entry, usedAt: Date.now() }));
+        return entry.value as T;
+    }
+
+    async set(key: string, value: unknown): Promise<void> {
+        const { maxEntries, ttlDays } = this.limits();
+        if (maxEntries === 0) {
+            return;
+        }
+
+        const now = Date.now();
+        // Oldest use first; entries used in the same millisecond keep their order
+        const kept = Object.entries(this.withEntry(key, { value, storedAt: now, usedAt: now }))
+            .filter(([, entry]) => now - entry.storedAt <= ttlDays * DAY_MS)
+            .sort(([, a], [, b]) => a.usedAt - b.usedAt)
+            .slice(-maxEntries);
+
+        await this.state.update(CACHE_KEY, Object.fromEntries(kept));
+    }
+
+    size(): number {
+        return Object.keys(this.entries()).length;
+    }
+
+    async clear(): Promise<void> {
+        await this.state.update(CACHE_KEY, undefined);
+    }
+
+    private entries(): Record<string, CacheEntry> {
+        return this.state.get<Record<string, CacheEntry>>(CACHE_KEY, {});
+    }
+
+    // All entries with key moved to the end, the most recently used position
+    private withEntry(key: string, entry: CacheEntry): Record<string, CacheEntry> {
+        const others = Object.entries(this.entries()).filter(([existing]) => existing !== key);
+        return Object.fromEntries([...others, [key, entry]]);
+    }
+}
+
+let activeCache: AiResponseCache | null = null;
+
+/**
+ * Creates the cache used by the AI services. Called once on activation;
+ * until then (and in tests) requests are simply not cached.
+ */
+export function initAiCache(state: vscode.Memento): AiResponseCache {
+    activeCache = new AiResponseCache(state);
+    return activeCache;
+}
+
+export function getAiCache(): AiResponseCache | null {
+    return activeCache;
+}
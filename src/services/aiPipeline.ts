@@ -0,0 +1,141 @@
+import * as vscode from "vscode";
+import {
+    getAiProvider,
+    AiRequest,
+    GenerateOptions,
+    AiCancelledError,
+    toAiRequestError
+} from "./aiProvider";
+
+// ─────────────────────────────────────────────────────────────
+// Every AI request goes through sendAiRequest(): requests are spaced
+// out to stay under the provider's rate limit, transient failures are
+// retried with exponential backoff, and whatever still fails comes out
+// as one typed AiRequestError (or AiCancelledError).
+// ─────────────────────────────────────────────────────────────
+
+const RATE_WINDOW_MS = 60 * 1000;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+export interface AiRequestSettings {
+    maxAttempts: number;            // including the first try
+    requestsPerMinute: number;      // 0 = no client-side limit
+}
+
+/**
+ * Settings from "codeforgex.ai.retry.maxAttempts" and
+ * "codeforgex.ai.rateLimit.requestsPerMinute", read per request.
+ */
+export function getAiRequestSettings(): AiRequestSettings {
+    const config = vscode.workspace.getConfiguration("codeforgex.ai");
+    return {
+        maxAttempts: Math.max(1, config.get<number>("retry.maxAttempts", 3)),
+        requestsPerMinute: Math.max(0, config.get<number>("rateLimit.requestsPerMinute", 15))
+    };
+}
+
+/**
+ * Wait before retry number `attempt` (1 = first retry): 1s, 2s, 4s ...
+ * capped at 30s, with up to 25% random jitter so parallel requests do
+ * not retry in lockstep. A Retry-After from the provider is honoured
+ * when it asks for longer.
+ */
+export function backoffDelay(attempt: number, retryAfterMs = 0, random: () => number = Math.random): number {
+    const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    const jittered = exponential * (1 - 0.25 * random());
+    return Math.round(Math.min(MAX_DELAY_MS, Math.max(jittered, retryAfterMs)));
+}
+
+/**
+ * Sliding-window limiter: at most `limit` requests in any minute.
+ */
+export class RateLimiter {
+
+    private sentAt: number[] = [];
+
+    constructor(private now: () => number = Date.now) {}
+
+    /**
+     * How long to wait before one more request fits under the limit.
+     */
+    delayFor(limit: number): number {
+        const now = this.now();
+        this.sentAt = this.sentAt.filter(time => now - time < RATE_WINDOW_MS);
+
+        if (limit <= 0 || this.sentAt.length < limit) {
+            return 0;
+        }
+        return this.sentAt[this.sentAt.length - limit] + RATE_WINDOW_MS - now;
+    }
+
+    record(): void {
+        this.sentAt.push(this.now());
+    }
+
+    /**
+     * Waits for a free slot and takes it. Rejects with AiCancelledError
+     * if the signal is aborted while waiting.
+     */
+    async acquire(limit: number, signal?: AbortSignal): Promise<void> {
+        for (let wait = this.delayFor(limit); wait > 0; wait = this.delayFor(limit)) {
+            await delay(wait, signal);
+        }
+        this.record();
+    }
+}
+
+// One limiter per window — all AI features share the provider's limit
+const limiter = new RateLimiter();
+
+/**
+ * Sends one request to the configured provider with rate limiting and
+ * retries. Throws AiRequestError when the request fails for good and
+ * AiCancelledError once options.signal is aborted.
+ */
+export async function sendAiRequest(request: AiRequest, options: GenerateOptions = {}): Promise<string> {
+    const settings = getAiRequestSettings();
+
+    for (let attempt = 1; ; attempt++) {
+        await limiter.acquire(settings.requestsPerMinute, options.signal);
+
+        try {
+            return await getAiProvider().generate(request, options);
+        } catch (error) {
+            // Providers fail in their own way when aborted; report it one way
+            if (options.signal?.aborted) {
+                throw new AiCancelledError();
+            }
+
+            const failure = toAiRequestError(error);
+            if (!failure.transient || attempt >= settings.maxAttempts) {
+                throw failure;
+            }
+
+            const wait = backoffDelay(attempt, failure.retryAfterMs);
+            console.warn(`AI ${request.task} request failed (${failure.kind}: ${failure.detail}); retry ${attempt} in ${wait} ms.`);
+            await delay(wait, options.signal);
+        }
+    }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AiCancelledError());
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+
+        function onAbort() {
+            clearTimeout(timer);
+            reject(new AiCancelledError());
+        }
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,224 @@
+import * as vscode from "vscode";
+import { GeminiProvider } from "./providers/geminiProvider";
+import { OpenAiProvider } from "./providers/openAiProvider";
+import { OllamaProvider } from "./providers/ollamaProvider";
+import { FakeProvider } from "./providers/fakeProvider";
+
+// Which prompt is being sent — lets providers (mainly the fake one)
+// shape their answer without parsing the prompt text.
+export type AiTask =
+    | "practiceQuestion"
+    | "evaluation"
+    | "explainCode"
+    | "explainSelection";
+
+export interface AiRequest {
+    task: AiTask;
+    prompt: string;
+    temperature: number;
+    language: string;       // VS Code languageId the prompt is about
+    code?: string;          // code under review/explanation, when the task has one
+}
+
+/**
+ * How a caller follows and stops one generation.
+ * With onText set, providers stream the reply and call it with the
+ * whole text received so far each time more arrives. Aborting the
+ * signal stops the request.
+ */
+export interface GenerateOptions {
+    signal?: AbortSignal;
+    onText?: (textSoFar: string) => void;
+}
+
+/**
+ * A backend able to turn a prompt into text.
+ * Implementations live in ./providers and are picked by
+ * the "codeforgex.ai.provider" setting.
+ */
+export interface AiProvider {
+    readonly id: AiProviderId;
+    generate(request: AiRequest, options?: GenerateOptions): Promise<string>;
+}
+
+/**
+ * Thrown when the user cancels a generation. Nothing has been changed
+ * when it is thrown, so callers just stop.
+ */
+export class AiCancelledError extends Error {
+    constructor() {
+        super("The AI request was cancelled.");
+        this.name = "AiCancelledError";
+    }
+}
+
+/**
+ * Why a request to the AI provider failed:
+ *   auth         the key is missing or was rejected
+ *   quota        the account is out of quota or credit
+ *   rateLimited  too many requests right now
+ *   network      the provider could not be reached
+ *   server       the provider failed (5xx, overloaded)
+ *   badRequest   the provider refused the request as sent
+ *   unknown      anything else
+ */
+export type AiErrorKind = "auth" | "quota" | "rateLimited" | "network" | "server" | "badRequest" | "unknown";
+
+// Kinds that may succeed when the same request is sent again
+const TRANSIENT_KINDS: AiErrorKind[] = ["rateLimited", "network", "server"];
+
+const USER_MESSAGES: Record<AiErrorKind, string> = {
+    auth: "The AI provider needs a valid API key. Check the key in your .env file.",
+    quota: "The AI provider quota is used up. Check your plan or billing, or try again later.",
+    rateLimited: "The AI provider is limiting requests (too many requests, or the free quota is used up). Wait a moment and try again.",
+    network: "Could not reach the AI provider. Check your connection and the provider URL.",
+    server: "The AI provider is having problems. Try again in a few minutes.",
+    badRequest: "The AI provider refused the request.",
+    unknown: "The AI request failed."
+};
+
+/**
+ * Typed failure of an AI request. message is written for the user;
+ * detail keeps what the provider actually said, for the log.
+ */
+export class AiRequestError extends Error {
+    readonly transient: boolean;
+
+    constructor(
+        readonly kind: AiErrorKind,
+        readonly detail: string,
+        readonly status?: number,
+        readonly retryAfterMs?: number
+    ) {
+        super(USER_MESSAGES[kind]);
+        this.name = "AiRequestError";
+        this.transient = TRANSIENT_KINDS.includes(kind);
+    }
+}
+
+/**
+ * Maps an HTTP status (and the provider's error text, which is the
+ * only way to tell an exhausted quota from a short burst of 429s) to
+ * an AiRequestError.
+ */
+export function aiErrorFromStatus(status: number, detail: string, retryAfter?: string | null): AiRequestError {
+    let kind: AiErrorKind = "unknown";
+    if (status === 401 || status === 403 || /API_KEY_INVALID|invalid api key/i.test(detail)) {
+        kind = "auth";
+    } else if (status === 429) {
+        // Gemini says "quota" even for per-minute limits, so only a
+        // billing problem counts as an exhausted quota
+        kind = /insufficient_quota|billing/i.test(detail) ? "quota" : "rateLimited";
+    } else if (status === 402) {
+        kind = "quota";
+    } else if (status >= 500) {
+        kind = "server";
+    } else if (status >= 400) {
+        kind = "badRequest";
+    }
+
+    const seconds = Number(retryAfter);
+    return new AiRequestError(kind, detail, status, Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined);
+}
+
+/**
+ * Classifies anything a provider threw. fetch() rejects with a
+ * TypeError when the server cannot be reached at all.
+ */
+export function toAiRequestError(error: any): AiRequestError {
+    if (error instanceof AiRequestError) {
+        return error;
+    }
+
+    const detail = String(error?.message ?? error);
+    if (typeof error?.status === "number") {
+        return aiErrorFromStatus(error.status, detail);
+    }
+    if (error instanceof TypeError || /fetch failed|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|socket hang up/i.test(detail)) {
+        return new AiRequestError("network", detail);
+    }
+    if (/API_KEY_INVALID|not configured/i.test(detail)) {
+        return new AiRequestError("auth", detail);
+    }
+    return new AiRequestError("unknown", detail);
+}
+
+export type AiProviderId = "gemini" | "openai" | "ollama" | "fake";
+
+// Sampling temperature per prompt — low for grading and explaining,
+// higher where variety helps. Overridable via "codeforgex.ai.temperatures".
+const DEFAULT_TEMPERATURES: Record<AiTask, number> = {
+    practiceQuestion: 0.6,
+    evaluation: 0.4,
+    explainCode: 0.3,
+    explainSelection: 0.7
+};
+
+let cachedProvider: AiProvider | null = null;
+
+/**
+ * Returns the provider selected in settings.
+ * The instance is cached until the setting changes.
+ */
+export function getAiProvider(): AiProvider {
+    const config = vscode.workspace.getConfiguration("codeforgex.ai");
+    const id = config.get<AiProviderId>("provider", "gemini");
+
+    if (cachedProvider && cachedProvider.id === id) {
+        return cachedProvider;
+    }
+
+    cachedProvider = createProvider(id, config);
+    return cachedProvider;
+}
+
+/**
+ * Temperature for a prompt, read on every request so edits to the
+ * setting apply to the next generation.
+ */
+export function getTemperature(task: AiTask): number {
+    const configured = vscode.workspace
+        .getConfiguration("codeforgex.ai")
+        .get<Partial<Record<AiTask, number>>>("temperatures", {});
+
+    const value = configured[task];
+    return typeof value === "number" ? value : DEFAULT_TEMPERATURES[task];
+}
+
+/**
+ * Drops the cached provider so the next call re-reads settings.
+ * Called from extension.ts whenever "codeforgex.ai" changes.
+ */
+export function resetAiProvider(): void {
+    cachedProvider = null;
+}
+
+function createProvider(
+    id: AiProviderId,
+    config: vscode.WorkspaceConfiguration
+): AiProvider {
+    switch (id) {
+        case "openai":
+            return new OpenAiProvider(
+                config.get<string>("openai.baseUrl", "https://api.openai.com/v1"),
+                config.get<string>("openai.model", "gpt-4o-mini"),
+                process.env.OPENAI_API_KEY
+            );
+
+        case "ollama":
+            return new OllamaProvider(
+                config.get<string>("ollama.baseUrl", "http://localhost:11434"),
+                config.get<string>("ollama.model", "llama3")
+            );
+
+        case "fake":
+            return new FakeProvider();
+
+        case "gemini":
+        default:
+            return new GeminiProvider(
+                process.env.GEMINI_API_KEY,
+                config.get<string>("gemini.model", "gemini-1.5-flash")
+            );
+    }
+}
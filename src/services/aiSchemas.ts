@@ -0,0 +1,298 @@
+// ─────────────────────────────────────────────────────────────
+// Typed shapes of the JSON the AI is asked to return, plus the
+// validators that turn an untrusted reply into those shapes.
+// Validators throw SchemaError with the offending path so the
+// caller can re-prompt the model with a precise complaint.
+// ─────────────────────────────────────────────────────────────
+
+export interface TestCase {
+    input: string;              // fed to the program on stdin
+    expectedOutput: string;     // compared against stdout
+    hidden: boolean;            // hidden cases only report pass/fail
+}
+
+// Hint ladder, from gentlest to most revealing
+export const HINT_LEVEL_NAMES = ["Nudge", "Approach", "Pseudocode"];
+
+export interface PracticeQuestion {
+    question: string;
+    hints: string[];            // one entry per HINT_LEVEL_NAMES level, in order
+    solution: string;
+    tests: TestCase[];
+}
+
+export type EvaluationVerdict = "Correct" | "Partially Correct" | "Needs Improvement";
+
+export interface EvaluationSuggestion {
+    line: number;               // 1-based line in the evaluated code
+    issue: string;
+    betterApproach: string;
+    exampleReplacement: string;
+}
+
+export interface CodeEvaluation {
+    correctness: string;
+    edgeCases: string;
+    timeComplexity: string;
+    codeQuality: string;
+    verdict: EvaluationVerdict;
+    suggestions: EvaluationSuggestion[];
+}
+
+export interface LineExplanation {
+    line: number;               // 1-based line in the explained code
+    explanation: string;
+}
+
+export type Validator<T> = (value: unknown) => T;
+
+const VERDICTS: EvaluationVerdict[] = ["Correct", "Partially Correct", "Needs Improvement"];
+
+/**
+ * Thrown by validators when a parsed reply does not match its schema.
+ */
+export class SchemaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SchemaError";
+    }
+}
+
+/**
+ * Thrown when the model still returns malformed output after every
+ * re-prompt. Keeps the last raw reply for logging.
+ */
+export class AiResponseError extends Error {
+    constructor(message: string, public readonly rawResponse: string) {
+        super(message);
+        this.name = "AiResponseError";
+    }
+}
+
+/**
+ * Extracts the JSON object from a model reply.
+ * Models often wrap JSON in ```json fences or add a sentence
+ * around it, so we take the outermost {...} span.
+ */
+export function parseJsonResponse(text: string): unknown {
+    const cleaned = text.replace(/```[\w]*\n?/g, "").replace(/```/g, "").trim();
+
+    const start = cleaned.indexOf("{");
+    const end = cleaned.lastIndexOf("}");
+
+    if (start === -1 || end <= start) {
+        throw new SchemaError("Response does not contain a JSON object.");
+    }
+
+    try {
+        return JSON.parse(cleaned.slice(start, end + 1));
+    } catch (error: any) {
+        throw new SchemaError(`Response is not valid JSON: ${error.message}`);
+    }
+}
+
+export const validatePracticeQuestion: Validator<PracticeQuestion> = (value) => {
+    const obj = expectObject(value, "$");
+
+    if (!Array.isArray(obj.tests) || obj.tests.length === 0) {
+        throw new SchemaError(`"tests" must be a non-empty array.`);
+    }
+
+    const tests = obj.tests.map((item: unknown, index: number) => {
+        const path = `tests[${index}]`;
+        const test = expectObject(item, path);
+
+        // Empty input is legitimate (e.g. "no arguments" edge case),
+        // so only the type is checked here.
+        if (typeof test.input !== "string") {
+            throw new SchemaError(`"${path}.input" must be a string.`);
+        }
+        if (typeof test.expectedOutput !== "string") {
+            throw new SchemaError(`"${path}.expectedOutput" must be a string.`);
+        }
+
+        return {
+            input: test.input,
+            expectedOutput: test.expectedOutput,
+            hidden: test.hidden === true
+        };
+    });
+
+    return {
+        question: expectString(obj, "question"),
+        hints: expectHintLadder(obj),
+        solution: expectString(obj, "solution"),
+        tests
+    };
+};
+
+export const validateCodeEvaluation: Validator<CodeEvaluation> = (value) => {
+    const obj = expectObject(value, "$");
+
+    const verdict = expectString(obj, "verdict");
+    if (!VERDICTS.includes(verdict as EvaluationVerdict)) {
+        throw new SchemaError(`"verdict" must be one of ${VERDICTS.map(v => `"${v}"`).join(", ")}.`);
+    }
+
+    const rawSuggestions = obj.suggestions ?? [];
+    if (!Array.isArray(rawSuggestions)) {
+        throw new SchemaError(`"suggestions" must be an array.`);
+    }
+
+    const suggestions = rawSuggestions.map((item, index) => {
+        const path = `suggestions[${index}]`;
+        const suggestion = expectObject(item, path);
+
+        if (!Number.isInteger(suggestion.line) || suggestion.line < 1) {
+            throw new SchemaError(`"${path}.line" must be a positive integer.`);
+        }
+
+        return {
+            line: suggestion.line,
+            issue: expectString(suggestion, "issue", path),
+            betterApproach: expectString(suggestion, "betterApproach", path),
+            exampleReplacement: expectString(suggestion, "exampleReplacement", path)
+        };
+    });
+
+    return {
+        correctness: expectString(obj, "correctness"),
+        edgeCases: expectString(obj, "edgeCases"),
+        timeComplexity: expectString(obj, "timeComplexity"),
+        codeQuality: expectString(obj, "codeQuality"),
+        verdict: verdict as EvaluationVerdict,
+        suggestions
+    };
+};
+
+export const validateLineExplanations: Validator<LineExplanation[]> = (value) => {
+    const obj = expectObject(value, "$");
+
+    if (!Array.isArray(obj.lines)) {
+        throw new SchemaError(`"lines" must be an array.`);
+    }
+
+    return obj.lines.map((item: unknown, index: number) => {
+        const path = `lines[${index}]`;
+        const entry = expectObject(item, path);
+
+        if (!Number.isInteger(entry.line) || entry.line < 1) {
+            throw new SchemaError(`"${path}.line" must be a positive integer.`);
+        }
+
+        return {
+            line: entry.line,
+            explanation: expectString(entry, "explanation", path)
+        };
+    });
+};
+
+/**
+ * Reads one string field from a reply that is still streaming in, for
+ * previews. Returns as much of the string as has arrived (escapes
+ * decoded), or null before the field starts. The finished reply is
+ * still parsed and validated as usual.
+ */
+export function previewStringField(partialReply: string, key: string): string | null {
+    const start = new RegExp(`"${key}"\\s*:\\s*"`).exec(partialReply);
+    if (!start) {
+        return null;
+    }
+
+    let raw = "";
+    for (let i = start.index + start[0].length; i < partialReply.length; i++) {
+        const char = partialReply[i];
+        if (char === "\"") {
+            break;
+        }
+        if (char === "\\") {
+            if (i + 1 === partialReply.length) {
+                break;          // escape cut in half — wait for the rest
+            }
+            raw += char + partialReply[++i];
+            continue;
+        }
+        raw += char;
+    }
+
+    try {
+        return JSON.parse(`"${raw.replace(/\\u[0-9a-fA-F]{0,3}$/, "")}"`);
+    } catch {
+        return raw;
+    }
+}
+
+/**
+ * Line explanations that have fully arrived in a streaming
+ * {"lines": [...]} reply, for previews.
+ */
+export function previewLineExplanations(partialReply: string): LineExplanation[] {
+    const explanations: LineExplanation[] = [];
+
+    // Entries are flat objects, so each complete one is a {...} with no braces inside
+    for (const match of partialReply.matchAll(/\{[^{}]*\}/g)) {
+        try {
+            const entry = JSON.parse(match[0]);
+            if (Number.isInteger(entry.line) && entry.line > 0 && typeof entry.explanation === "string" && entry.explanation.trim()) {
+                explanations.push({ line: entry.line, explanation: entry.explanation.trim() });
+            }
+        } catch {
+            // Not an entry (or a brace inside a string) — the final parse decides
+        }
+    }
+    return explanations;
+}
+
+/**
+ * Renders an evaluation as the plain-text summary shown to the user.
+ */
+export function formatEvaluationSummary(evaluation: CodeEvaluation): string {
+    return [
+        "Correctness:",
+        evaluation.correctness,
+        "",
+        "Edge Cases:",
+        evaluation.edgeCases,
+        "",
+        "Time Complexity:",
+        evaluation.timeComplexity,
+        "",
+        "Code Quality:",
+        evaluation.codeQuality,
+        "",
+        "Final Verdict:",
+        evaluation.verdict
+    ].join("\n");
+}
+
+function expectHintLadder(obj: Record<string, any>): string[] {
+    const hints = obj.hints;
+
+    if (!Array.isArray(hints) || hints.length !== HINT_LEVEL_NAMES.length) {
+        throw new SchemaError(`"hints" must be an array of exactly ${HINT_LEVEL_NAMES.length} strings (${HINT_LEVEL_NAMES.join(", ")}).`);
+    }
+
+    return hints.map((hint, index) => {
+        if (typeof hint !== "string" || hint.trim() === "") {
+            throw new SchemaError(`"hints[${index}]" must be a non-empty string.`);
+        }
+        return hint.trim();
+    });
+}
+
+function expectObject(value: unknown, path: string): Record<string, any> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new SchemaError(`"${path}" must be a JSON object.`);
+    }
+    return value as Record<string, any>;
+}
+
+function expectString(obj: Record<string, any>, key: string, parent?: string): string {
+    const value = obj[key];
+    const path = parent ? `${parent}.${key}` : key;
+
+    if (typeof value !== "string" || value.trim() === "") {
+        throw new SchemaError(`"${path}" must be a non-empty string.`);
+    }
+    return value.trim();
+}
@@ -1 +1,2 @@
-export { generatePracticeQuestion } from './geminiService';
+export { generatePracticeQuestion, evaluateCode, explainCode, explainSelection, CachedGenerateOptions } from './geminiService';
+export { getAiProvider, resetAiProvider, AiCancelledError, AiRequestError, GenerateOptions } from './aiProvider';
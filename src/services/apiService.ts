@@ -1,23 +1,80 @@
 import * as vscode from 'vscode';
 import { getToken, deleteToken } from './authService';
+import { SyncQueue, isPermanentFailure } from './syncQueue';
 
-const API_BASE = 'https://codexly-backend.onrender.com/api';
+const DEFAULT_API_BASE = 'https://codexly-backend.onrender.com/api';
+
+// Read on every request so pointing at a staging or self-hosted
+// backend takes effect without a reload
+function getApiBase(): string {
+    const configured = vscode.workspace
+        .getConfiguration('codeforgex.backend')
+        .get<string>('url', DEFAULT_API_BASE);
+
+    return (configured.trim() || DEFAULT_API_BASE).replace(/\/+$/, '');
+}
 
 // Shape of practice data sent after each successful run
 export interface PracticeData {
+    sessionId: string;       // client-generated UUID — lets retries be de-duplicated
     question: string;
-    timeTaken: string;      // formatted "MM:SS"
+    topics: string[];        // taxonomy labels such as "Graphs / BFS", or the user's own topic
+    timeTaken: string;      // formatted "MM:SS", or "H:MM:SS" from one hour on — active time only
+    activeSeconds: number;  // time the timer ran
+    idleSeconds: number;    // time the timer was auto-paused because the user was away
     hintsUsed: number;
+    hintLevel: number;      // deepest hint level revealed: 0 none, 1 nudge, 2 approach, 3 pseudocode
     solutionViewed: boolean;
+    passRate: number | null; // fraction of generated tests passed on the last Submit, null if never submitted
+    withinBudget: boolean | null; // finished within the time limit, null when there was none
     language: string;
     date: string;           // ISO 8601 date string
 }
 
+// 'rejected': the backend refused the payload for good — never retried
+type UploadResult = 'sent' | 'failed' | 'unauthorized' | 'rejected';
+
+// Only one flush at a time — activation and login can race
+let flushInProgress = false;
+let retryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * POSTs one payload. Never throws — network errors count as 'failed'.
+ */
+async function uploadPracticeData(token: string, data: PracticeData): Promise<UploadResult> {
+    try {
+        const response = await fetch(`${getApiBase()}/practice`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(data)
+        });
+
+        if (response.status === 401) {
+            return 'unauthorized';
+        }
+
+        if (isPermanentFailure(response.status)) {
+            console.error(`CodeForgeX: practice data ${data.sessionId} rejected with HTTP ${response.status}.`);
+            return 'rejected';
+        }
+
+        return response.ok ? 'sent' : 'failed';
+
+    } catch {
+        return 'failed';
+    }
+}
+
 /**
  * Sends practice session data to the backend after a successful run.
  *
  * Phase 2: POST /api/practice with Bearer token.
  * Phase 4: Handles fetch failures and 401 session expiry cleanly.
+ * Anything that cannot be sent right now is kept in the offline
+ * queue and retried later (see flushPendingPracticeData).
  *
  * Returns true if data was sent successfully, false otherwise.
  */
@@ -25,53 +82,139 @@ export async function sendPracticeData(
     context: vscode.ExtensionContext,
     data: PracticeData
 ): Promise<boolean> {
-    console.log("🔥 sendPracticeData CALLED");
-console.log("Data being sent:", data);
-
+    const queue = new SyncQueue(context.globalState);
 
     // Get stored token — if missing, user is not logged in
     const token = await getToken(context);
 
     if (!token) {
+        await queue.enqueue(data);
         vscode.window.showErrorMessage(
-            'CodeForgeX: Please login first to save your practice data. Use "CodeForgeX: Login" command.'
+            'CodeForgeX: Please login to sync your practice data. It is saved locally and will be sent after you login with "CodeForgeX: Login".'
         );
         return false;
     }
 
-    try {
-        const response = await fetch(`${API_BASE}/practice`, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(data)
-        });
+    const result = await uploadPracticeData(token, data);
 
-        // Phase 4: 401 means token is expired or invalid — auto logout
-        if (response.status === 401) {
-            await deleteToken(context);
-            vscode.window.showErrorMessage(
-                'CodeForgeX: Session expired. Please login again using "CodeForgeX: Login".'
-            );
-            return false;
-        }
+    if (result === 'sent') {
+        return true;
+    }
 
-        if (!response.ok) {
-            vscode.window.showErrorMessage(
-                `CodeForgeX: Failed to save practice data (${response.status}). Will try again next time.`
-            );
-            return false;
-        }
+    // Kept in the local history, but retrying cannot help
+    if (result === 'rejected') {
+        vscode.window.showWarningMessage(
+            'CodeForgeX: The server did not accept this practice session. It is kept in your local statistics only.'
+        );
+        return false;
+    }
 
-        return true;
+    await queue.enqueue(data);
+    await queue.markFailed(data.sessionId);
+    scheduleRetry(context);
 
-    } catch (error: any) {
-        // Phase 4: Network failure or fetch error — show message, do not crash
+    // Phase 4: 401 means token is expired or invalid — auto logout
+    if (result === 'unauthorized') {
+        await deleteToken(context);
         vscode.window.showErrorMessage(
-            'CodeForgeX: Could not reach server. Practice data not saved. Check your connection.'
+            'CodeForgeX: Session expired. Please login again using "CodeForgeX: Login". Your practice data is saved locally.'
         );
         return false;
     }
-}
\ No newline at end of file
+
+    // Phase 4: Network failure or server error — show message, do not crash
+    vscode.window.showWarningMessage(
+        'CodeForgeX: Could not reach server. Practice data saved locally and will be retried automatically.'
+    );
+    return false;
+}
+
+/**
+ * Retries queued practice data.
+ * Without force only entries whose backoff has elapsed are sent;
+ * force (used right after login) sends everything immediately.
+ * Reschedules itself for the next due entry. Returns how many remain.
+ */
+export async function flushPendingPracticeData(
+    context: vscode.ExtensionContext,
+    force = false
+): Promise<number> {
+    const queue = new SyncQueue(context.globalState);
+
+    if (flushInProgress) {
+        return queue.count();
+    }
+
+    const token = await getToken(context);
+    if (!token) {
+        // Nothing can be sent until login, which flushes again
+        return queue.count();
+    }
+
+    flushInProgress = true;
+    let sent = 0;
+
+    try {
+        for (const entry of queue.due(force)) {
+            const result = await uploadPracticeData(token, entry.data);
+
+            if (result === 'sent') {
+                await queue.remove(entry.data.sessionId);
+                sent++;
+                continue;
+            }
+
+            if (result === 'rejected') {
+                await queue.remove(entry.data.sessionId);
+                continue;
+            }
+
+            await queue.markFailed(entry.data.sessionId);
+
+            if (result === 'unauthorized') {
+                await deleteToken(context);
+                break;
+            }
+        }
+    } finally {
+        flushInProgress = false;
+    }
+
+    if (sent > 0) {
+        vscode.window.showInformationMessage(`CodeForgeX: Synced ${sent} saved practice session${sent === 1 ? '' : 's'}.`);
+    }
+
+    scheduleRetry(context);
+    return queue.count();
+}
+
+/**
+ * Arms a single timer for the earliest pending entry, so retries keep
+ * happening with backoff while the window stays open.
+ */
+function scheduleRetry(context: vscode.ExtensionContext): void {
+    if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+    }
+
+    const delay = new SyncQueue(context.globalState).msUntilNextDue();
+    if (delay === null) {
+        return;
+    }
+
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flushPendingPracticeData(context);
+    }, delay);
+}
+
+/**
+ * Stops the retry timer (extension deactivation).
+ */
+export function stopPendingSync(): void {
+    if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+    }
+}
@@ -0,0 +1,750 @@
+import { BankProblem } from "./problemBank";
+
+// ─────────────────────────────────────────────────────────────
+// Problems shipped with the extension. Used when the AI provider
+// is unreachable. Every solution reads its input from stdin and
+// falls back to the sample input when stdin is empty, matching
+// what the AI is asked to generate.
+// ─────────────────────────────────────────────────────────────
+
+const code = (lines: string[]) => lines.join("\n");
+
+export const BUNDLED_PROBLEMS: BankProblem[] = [
+    {
+        id: "two-sum",
+        title: "Two Sum",
+        topic: "Arrays",
+        difficulty: "Easy",
+        question: [
+            "Given an array of integers and a target, return the indices of the two numbers that add up to the target.",
+            "Exactly one pair exists. You may not use the same element twice.",
+            "",
+            "Input: first line — the numbers separated by spaces; second line — the target.",
+            "Output: the two 0-based indices separated by a space, smaller index first."
+        ].join("\n"),
+        hints: [
+            "For each number, think about which other number would complete the pair.",
+            "Use a hash map from value to index so the complement lookup is O(1).",
+            "seen = {}\nfor i, n in nums:\n    if target - n in seen: return seen[target - n], i\n    seen[n] = i"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def two_sum(nums, target):",
+                "    seen = {}",
+                "    for i, n in enumerate(nums):",
+                "        if target - n in seen:",
+                "            return seen[target - n], i",
+                "        seen[n] = i",
+                "    return -1, -1",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().strip().split(\"\\n\")",
+                "    if data[0]:",
+                "        nums = list(map(int, data[0].split()))",
+                "        target = int(data[1])",
+                "    else:",
+                "        nums, target = [2, 7, 11, 15], 9",
+                "    i, j = two_sum(nums, target)",
+                "    print(i, j)"
+            ]),
+            javascript: code([
+                "function twoSum(nums, target) {",
+                "    const seen = new Map();",
+                "    for (let i = 0; i < nums.length; i++) {",
+                "        if (seen.has(target - nums[i])) {",
+                "            return [seen.get(target - nums[i]), i];",
+                "        }",
+                "        seen.set(nums[i], i);",
+                "    }",
+                "    return [-1, -1];",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim().split(\"\\n\");",
+                "const nums = data[0] ? data[0].trim().split(/\\s+/).map(Number) : [2, 7, 11, 15];",
+                "const target = data[0] ? Number(data[1]) : 9;",
+                "console.log(twoSum(nums, target).join(\" \"));"
+            ])
+        },
+        tests: [
+            { input: "2 7 11 15\n9", expectedOutput: "0 1", hidden: false },
+            { input: "3 2 4\n6", expectedOutput: "1 2", hidden: false },
+            { input: "3 3\n6", expectedOutput: "0 1", hidden: false },
+            { input: "-1 -2 -3 -4 -5\n-8", expectedOutput: "2 4", hidden: true },
+            { input: "0 4 3 0\n0", expectedOutput: "0 3", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "reverse-words",
+        title: "Reverse Words in a String",
+        topic: "Strings",
+        difficulty: "Easy",
+        question: [
+            "Given a sentence, return its words in reverse order.",
+            "Words are separated by one or more spaces; the output must use single spaces and no leading or trailing spaces.",
+            "",
+            "Input: one line of text.",
+            "Output: the words in reverse order."
+        ].join("\n"),
+        hints: [
+            "Extra spaces should not produce empty words.",
+            "Split on whitespace, then reverse the list of words.",
+            "words = split(sentence)  # ignores repeated spaces\nreturn join(reverse(words), \" \")"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def reverse_words(sentence):",
+                "    return \" \".join(reversed(sentence.split()))",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read()",
+                "    print(reverse_words(data if data.strip() else \"the sky is blue\"))"
+            ]),
+            javascript: code([
+                "function reverseWords(sentence) {",
+                "    return sentence.trim().split(/\\s+/).reverse().join(\" \");",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\");",
+                "console.log(reverseWords(data.trim() ? data : \"the sky is blue\"));"
+            ])
+        },
+        tests: [
+            { input: "the sky is blue", expectedOutput: "blue is sky the", hidden: false },
+            { input: "  hello world  ", expectedOutput: "world hello", hidden: false },
+            { input: "a", expectedOutput: "a", hidden: false },
+            { input: "a good   example", expectedOutput: "example good a", hidden: true },
+            { input: "x y", expectedOutput: "y x", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "longest-unique-substring",
+        title: "Longest Substring Without Repeating Characters",
+        topic: "Strings",
+        difficulty: "Medium",
+        question: [
+            "Given a string, find the length of the longest substring that contains no repeated characters.",
+            "",
+            "Input: one line containing the string (no spaces).",
+            "Output: the length of the longest such substring."
+        ].join("\n"),
+        hints: [
+            "A substring is contiguous — when you meet a repeat, part of the current window becomes invalid.",
+            "Use a sliding window with a map of each character's last position; move the left edge past repeats.",
+            "left = 0; best = 0\nfor right, c in s:\n    if c seen at i >= left: left = i + 1\n    last[c] = right\n    best = max(best, right - left + 1)"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def longest_unique(s):",
+                "    last = {}",
+                "    left = best = 0",
+                "    for right, c in enumerate(s):",
+                "        if c in last and last[c] >= left:",
+                "            left = last[c] + 1",
+                "        last[c] = right",
+                "        best = max(best, right - left + 1)",
+                "    return best",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().strip()",
+                "    print(longest_unique(data if data else \"abcabcbb\"))"
+            ]),
+            javascript: code([
+                "function longestUnique(s) {",
+                "    const last = new Map();",
+                "    let left = 0;",
+                "    let best = 0;",
+                "    for (let right = 0; right < s.length; right++) {",
+                "        const c = s[right];",
+                "        if (last.has(c) && last.get(c) >= left) {",
+                "            left = last.get(c) + 1;",
+                "        }",
+                "        last.set(c, right);",
+                "        best = Math.max(best, right - left + 1);",
+                "    }",
+                "    return best;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim();",
+                "console.log(longestUnique(data || \"abcabcbb\"));"
+            ])
+        },
+        tests: [
+            { input: "abcabcbb", expectedOutput: "3", hidden: false },
+            { input: "bbbbb", expectedOutput: "1", hidden: false },
+            { input: "pwwkew", expectedOutput: "3", hidden: false },
+            { input: "dvdf", expectedOutput: "3", hidden: true },
+            { input: "abba", expectedOutput: "2", hidden: true },
+            { input: "au", expectedOutput: "2", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "binary-search",
+        title: "Binary Search",
+        topic: "Searching",
+        difficulty: "Easy",
+        question: [
+            "Given a sorted array of distinct integers and a target, return the index of the target, or -1 if it is absent.",
+            "Your solution must run in O(log n).",
+            "",
+            "Input: first line — the sorted numbers; second line — the target.",
+            "Output: the 0-based index, or -1."
+        ].join("\n"),
+        hints: [
+            "Looking at the middle element tells you which half can still contain the target.",
+            "Keep low/high bounds and halve the range each step until they cross.",
+            "lo = 0; hi = n - 1\nwhile lo <= hi:\n    mid = (lo + hi) // 2\n    if a[mid] == t: return mid\n    if a[mid] < t: lo = mid + 1 else: hi = mid - 1\nreturn -1"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def binary_search(nums, target):",
+                "    lo, hi = 0, len(nums) - 1",
+                "    while lo <= hi:",
+                "        mid = (lo + hi) // 2",
+                "        if nums[mid] == target:",
+                "            return mid",
+                "        if nums[mid] < target:",
+                "            lo = mid + 1",
+                "        else:",
+                "            hi = mid - 1",
+                "    return -1",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().strip().split(\"\\n\")",
+                "    if data[0]:",
+                "        nums = list(map(int, data[0].split()))",
+                "        target = int(data[1])",
+                "    else:",
+                "        nums, target = [-1, 0, 3, 5, 9, 12], 9",
+                "    print(binary_search(nums, target))"
+            ]),
+            javascript: code([
+                "function binarySearch(nums, target) {",
+                "    let lo = 0;",
+                "    let hi = nums.length - 1;",
+                "    while (lo <= hi) {",
+                "        const mid = Math.floor((lo + hi) / 2);",
+                "        if (nums[mid] === target) {",
+                "            return mid;",
+                "        }",
+                "        if (nums[mid] < target) {",
+                "            lo = mid + 1;",
+                "        } else {",
+                "            hi = mid - 1;",
+                "        }",
+                "    }",
+                "    return -1;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim().split(\"\\n\");",
+                "const nums = data[0] ? data[0].trim().split(/\\s+/).map(Number) : [-1, 0, 3, 5, 9, 12];",
+                "const target = data[0] ? Number(data[1]) : 9;",
+                "console.log(binarySearch(nums, target));"
+            ])
+        },
+        tests: [
+            { input: "-1 0 3 5 9 12\n9", expectedOutput: "4", hidden: false },
+            { input: "-1 0 3 5 9 12\n2", expectedOutput: "-1", hidden: false },
+            { input: "5\n5", expectedOutput: "0", hidden: false },
+            { input: "1 2 3 4 5 6 7 8\n8", expectedOutput: "7", hidden: true },
+            { input: "1 3\n0", expectedOutput: "-1", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "merge-intervals",
+        title: "Merge Intervals",
+        topic: "Sorting",
+        difficulty: "Medium",
+        question: [
+            "Given a list of intervals, merge all overlapping intervals (touching intervals such as [1,4] and [4,5] overlap).",
+            "",
+            "Input: one interval per line as \"start end\".",
+            "Output: the merged intervals sorted by start, one per line as \"start end\"."
+        ].join("\n"),
+        hints: [
+            "Overlaps are easy to spot once intervals are in a useful order.",
+            "Sort by start, then sweep once, extending the last merged interval while the next one starts before it ends.",
+            "sort intervals by start\nfor each [s, e]:\n    if merged and s <= merged[-1].end: merged[-1].end = max(merged[-1].end, e)\n    else: merged.append([s, e])"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def merge(intervals):",
+                "    merged = []",
+                "    for start, end in sorted(intervals):",
+                "        if merged and start <= merged[-1][1]:",
+                "            merged[-1][1] = max(merged[-1][1], end)",
+                "        else:",
+                "            merged.append([start, end])",
+                "    return merged",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().strip()",
+                "    if data:",
+                "        intervals = [list(map(int, line.split())) for line in data.split(\"\\n\") if line.strip()]",
+                "    else:",
+                "        intervals = [[1, 3], [2, 6], [8, 10], [15, 18]]",
+                "    for start, end in merge(intervals):",
+                "        print(start, end)"
+            ]),
+            javascript: code([
+                "function merge(intervals) {",
+                "    const merged = [];",
+                "    for (const [start, end] of [...intervals].sort((a, b) => a[0] - b[0])) {",
+                "        if (merged.length && start <= merged[merged.length - 1][1]) {",
+                "            merged[merged.length - 1][1] = Math.max(merged[merged.length - 1][1], end);",
+                "        } else {",
+                "            merged.push([start, end]);",
+                "        }",
+                "    }",
+                "    return merged;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim();",
+                "const intervals = data",
+                "    ? data.split(\"\\n\").filter(l => l.trim()).map(l => l.trim().split(/\\s+/).map(Number))",
+                "    : [[1, 3], [2, 6], [8, 10], [15, 18]];",
+                "console.log(merge(intervals).map(i => i.join(\" \")).join(\"\\n\"));"
+            ])
+        },
+        tests: [
+            { input: "1 3\n2 6\n8 10\n15 18", expectedOutput: "1 6\n8 10\n15 18", hidden: false },
+            { input: "1 4\n4 5", expectedOutput: "1 5", hidden: false },
+            { input: "1 4\n0 4", expectedOutput: "0 4", hidden: false },
+            { input: "1 4\n2 3", expectedOutput: "1 4", hidden: true },
+            { input: "5 7", expectedOutput: "5 7", hidden: true },
+            { input: "1 10\n2 3\n4 5\n11 12", expectedOutput: "1 10\n11 12", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "kth-largest",
+        title: "Kth Largest Element",
+        topic: "Heaps",
+        difficulty: "Medium",
+        question: [
+            "Given an array of integers and k, return the kth largest element (by sorted order, duplicates count).",
+            "",
+            "Input: first line — the numbers; second line — k.",
+            "Output: the kth largest value."
+        ].join("\n"),
+        hints: [
+            "You don't need the whole array in order — only the top k values matter.",
+            "Keep a min-heap of size k; its root is the kth largest once every number has been pushed.",
+            "heap = []\nfor n in nums:\n    push(heap, n)\n    if size(heap) > k: pop_min(heap)\nreturn heap.min"
+        ],
+        solutions: {
+            python: code([
+                "import heapq",
+                "import sys",
+                "",
+                "def kth_largest(nums, k):",
+                "    heap = []",
+                "    for n in nums:",
+                "        heapq.heappush(heap, n)",
+                "        if len(heap) > k:",
+                "            heapq.heappop(heap)",
+                "    return heap[0]",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().strip().split(\"\\n\")",
+                "    if data[0]:",
+                "        nums = list(map(int, data[0].split()))",
+                "        k = int(data[1])",
+                "    else:",
+                "        nums, k = [3, 2, 1, 5, 6, 4], 2",
+                "    print(kth_largest(nums, k))"
+            ]),
+            javascript: code([
+                "function kthLargest(nums, k) {",
+                "    return [...nums].sort((a, b) => b - a)[k - 1];",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim().split(\"\\n\");",
+                "const nums = data[0] ? data[0].trim().split(/\\s+/).map(Number) : [3, 2, 1, 5, 6, 4];",
+                "const k = data[0] ? Number(data[1]) : 2;",
+                "console.log(kthLargest(nums, k));"
+            ])
+        },
+        tests: [
+            { input: "3 2 1 5 6 4\n2", expectedOutput: "5", hidden: false },
+            { input: "3 2 3 1 2 4 5 5 6\n4", expectedOutput: "4", hidden: false },
+            { input: "1\n1", expectedOutput: "1", hidden: false },
+            { input: "-1 -1\n2", expectedOutput: "-1", hidden: true },
+            { input: "7 6 5 4 3 2 1\n7", expectedOutput: "1", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "valid-parentheses",
+        title: "Valid Parentheses",
+        topic: "Stacks",
+        difficulty: "Easy",
+        question: [
+            "Given a string containing only the characters ()[]{}, decide whether every bracket is closed by the same type in the correct order.",
+            "",
+            "Input: one line with the brackets.",
+            "Output: true or false."
+        ].join("\n"),
+        hints: [
+            "The most recently opened bracket must be the first one closed.",
+            "Push opening brackets on a stack; on a closing bracket the top of the stack must be its partner.",
+            "for c in s:\n    if c opens: push(c)\n    elif stack empty or pop() != partner(c): return false\nreturn stack is empty"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def is_valid(s):",
+                "    pairs = {\")\": \"(\", \"]\": \"[\", \"}\": \"{\"}",
+                "    stack = []",
+                "    for c in s:",
+                "        if c in pairs:",
+                "            if not stack or stack.pop() != pairs[c]:",
+                "                return False",
+                "        else:",
+                "            stack.append(c)",
+                "    return not stack",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().strip()",
+                "    print(\"true\" if is_valid(data if data else \"()[]{}\") else \"false\")"
+            ]),
+            javascript: code([
+                "function isValid(s) {",
+                "    const pairs = { \")\": \"(\", \"]\": \"[\", \"}\": \"{\" };",
+                "    const stack = [];",
+                "    for (const c of s) {",
+                "        if (c in pairs) {",
+                "            if (stack.pop() !== pairs[c]) {",
+                "                return false;",
+                "            }",
+                "        } else {",
+                "            stack.push(c);",
+                "        }",
+                "    }",
+                "    return stack.length === 0;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim();",
+                "console.log(isValid(data || \"()[]{}\"));"
+            ])
+        },
+        tests: [
+            { input: "()", expectedOutput: "true", hidden: false },
+            { input: "()[]{}", expectedOutput: "true", hidden: false },
+            { input: "(]", expectedOutput: "false", hidden: false },
+            { input: "([)]", expectedOutput: "false", hidden: true },
+            { input: "{[]}", expectedOutput: "true", hidden: true },
+            { input: "((", expectedOutput: "false", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "reverse-linked-list",
+        title: "Reverse a Linked List",
+        topic: "Linked List",
+        difficulty: "Easy",
+        question: [
+            "Build a singly linked list from the given values, reverse it in place, and print the reversed values.",
+            "",
+            "Input: one line of values separated by spaces.",
+            "Output: the reversed values separated by spaces."
+        ].join("\n"),
+        hints: [
+            "Each node only needs its next pointer turned around.",
+            "Walk the list keeping prev and current; point current.next at prev, then advance both.",
+            "prev = null\nwhile cur:\n    nxt = cur.next\n    cur.next = prev\n    prev = cur\n    cur = nxt\nreturn prev"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "class Node:",
+                "    def __init__(self, val, next=None):",
+                "        self.val = val",
+                "        self.next = next",
+                "",
+                "def reverse(head):",
+                "    prev = None",
+                "    while head:",
+                "        head.next, prev, head = prev, head, head.next",
+                "    return prev",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().split()",
+                "    values = data if data else [\"1\", \"2\", \"3\", \"4\", \"5\"]",
+                "    head = None",
+                "    for v in reversed(values):",
+                "        head = Node(v, head)",
+                "    out = []",
+                "    node = reverse(head)",
+                "    while node:",
+                "        out.append(node.val)",
+                "        node = node.next",
+                "    print(\" \".join(out))"
+            ]),
+            javascript: code([
+                "class Node {",
+                "    constructor(val, next = null) {",
+                "        this.val = val;",
+                "        this.next = next;",
+                "    }",
+                "}",
+                "",
+                "function reverse(head) {",
+                "    let prev = null;",
+                "    while (head) {",
+                "        const next = head.next;",
+                "        head.next = prev;",
+                "        prev = head;",
+                "        head = next;",
+                "    }",
+                "    return prev;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim();",
+                "const values = data ? data.split(/\\s+/) : [\"1\", \"2\", \"3\", \"4\", \"5\"];",
+                "let head = null;",
+                "for (let i = values.length - 1; i >= 0; i--) {",
+                "    head = new Node(values[i], head);",
+                "}",
+                "const out = [];",
+                "for (let node = reverse(head); node; node = node.next) {",
+                "    out.push(node.val);",
+                "}",
+                "console.log(out.join(\" \"));"
+            ])
+        },
+        tests: [
+            { input: "1 2 3 4 5", expectedOutput: "5 4 3 2 1", hidden: false },
+            { input: "1 2", expectedOutput: "2 1", hidden: false },
+            { input: "7", expectedOutput: "7", hidden: false },
+            { input: "1 1 2", expectedOutput: "2 1 1", hidden: true },
+            { input: "-3 0 3", expectedOutput: "3 0 -3", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "number-of-islands",
+        title: "Number of Islands",
+        topic: "Graphs",
+        difficulty: "Medium",
+        question: [
+            "Given a grid of '1' (land) and '0' (water), count the islands. An island is land connected horizontally or vertically.",
+            "",
+            "Input: one grid row per line, e.g. 11000.",
+            "Output: the number of islands."
+        ].join("\n"),
+        hints: [
+            "Every island is found the first time you step on one of its cells.",
+            "Scan the grid; on unvisited land, count an island and flood-fill (DFS/BFS) to mark all its cells.",
+            "for each cell:\n    if land and not seen:\n        count += 1\n        flood(cell)  # mark 4-connected land as seen\nreturn count"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def count_islands(grid):",
+                "    rows, cols = len(grid), len(grid[0])",
+                "    seen = set()",
+                "    count = 0",
+                "    for r in range(rows):",
+                "        for c in range(cols):",
+                "            if grid[r][c] == \"1\" and (r, c) not in seen:",
+                "                count += 1",
+                "                stack = [(r, c)]",
+                "                seen.add((r, c))",
+                "                while stack:",
+                "                    y, x = stack.pop()",
+                "                    for ny, nx in ((y + 1, x), (y - 1, x), (y, x + 1), (y, x - 1)):",
+                "                        if 0 <= ny < rows and 0 <= nx < cols and grid[ny][nx] == \"1\" and (ny, nx) not in seen:",
+                "                            seen.add((ny, nx))",
+                "                            stack.append((ny, nx))",
+                "    return count",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().split()",
+                "    grid = data if data else [\"11000\", \"11000\", \"00100\", \"00011\"]",
+                "    print(count_islands(grid))"
+            ]),
+            javascript: code([
+                "function countIslands(grid) {",
+                "    const rows = grid.length;",
+                "    const cols = grid[0].length;",
+                "    const seen = new Set();",
+                "    let count = 0;",
+                "    for (let r = 0; r < rows; r++) {",
+                "        for (let c = 0; c < cols; c++) {",
+                "            if (grid[r][c] !== \"1\" || seen.has(`${r},${c}`)) {",
+                "                continue;",
+                "            }",
+                "            count++;",
+                "            const stack = [[r, c]];",
+                "            seen.add(`${r},${c}`);",
+                "            while (stack.length) {",
+                "                const [y, x] = stack.pop();",
+                "                for (const [ny, nx] of [[y + 1, x], [y - 1, x], [y, x + 1], [y, x - 1]]) {",
+                "                    if (ny >= 0 && ny < rows && nx >= 0 && nx < cols && grid[ny][nx] === \"1\" && !seen.has(`${ny},${nx}`)) {",
+                "                        seen.add(`${ny},${nx}`);",
+                "                        stack.push([ny, nx]);",
+                "                    }",
+                "                }",
+                "            }",
+                "        }",
+                "    }",
+                "    return count;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim();",
+                "const grid = data ? data.split(/\\s+/) : [\"11000\", \"11000\", \"00100\", \"00011\"];",
+                "console.log(countIslands(grid));"
+            ])
+        },
+        tests: [
+            { input: "11110\n11010\n11000\n00000", expectedOutput: "1", hidden: false },
+            { input: "11000\n11000\n00100\n00011", expectedOutput: "3", hidden: false },
+            { input: "1", expectedOutput: "1", hidden: false },
+            { input: "0", expectedOutput: "0", hidden: true },
+            { input: "101\n010\n101", expectedOutput: "5", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "climbing-stairs",
+        title: "Climbing Stairs",
+        topic: "Dynamic Programming",
+        difficulty: "Easy",
+        question: [
+            "You climb a staircase of n steps, taking 1 or 2 steps at a time. In how many distinct ways can you reach the top?",
+            "",
+            "Input: n (1 ≤ n ≤ 45).",
+            "Output: the number of ways."
+        ].join("\n"),
+        hints: [
+            "Think about the very last move onto step n.",
+            "ways(n) = ways(n - 1) + ways(n - 2); build it bottom-up with two variables.",
+            "a, b = 1, 1\nrepeat n - 1 times: a, b = b, a + b\nreturn b"
+        ],
+        solutions: {
+            python: code([
+                "import sys",
+                "",
+                "def climb_stairs(n):",
+                "    a, b = 1, 1",
+                "    for _ in range(n - 1):",
+                "        a, b = b, a + b",
+                "    return b",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().strip()",
+                "    print(climb_stairs(int(data) if data else 5))"
+            ]),
+            javascript: code([
+                "function climbStairs(n) {",
+                "    let a = 1;",
+                "    let b = 1;",
+                "    for (let i = 1; i < n; i++) {",
+                "        [a, b] = [b, a + b];",
+                "    }",
+                "    return b;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim();",
+                "console.log(climbStairs(data ? Number(data) : 5));"
+            ])
+        },
+        tests: [
+            { input: "2", expectedOutput: "2", hidden: false },
+            { input: "3", expectedOutput: "3", hidden: false },
+            { input: "5", expectedOutput: "8", hidden: false },
+            { input: "1", expectedOutput: "1", hidden: true },
+            { input: "10", expectedOutput: "89", hidden: true },
+            { input: "45", expectedOutput: "1836311903", hidden: true }
+        ],
+        source: "bundled"
+    },
+    {
+        id: "longest-increasing-subsequence",
+        title: "Longest Increasing Subsequence",
+        topic: "Dynamic Programming",
+        difficulty: "Hard",
+        question: [
+            "Given an array of integers, return the length of the longest strictly increasing subsequence.",
+            "Aim for O(n log n).",
+            "",
+            "Input: one line of numbers separated by spaces.",
+            "Output: the length."
+        ].join("\n"),
+        hints: [
+            "For each length, only the smallest possible tail value matters.",
+            "Maintain tails[i] = smallest tail of an increasing subsequence of length i + 1; binary-search where each number goes.",
+            "tails = []\nfor x in nums:\n    i = lower_bound(tails, x)\n    if i == len(tails): tails.append(x) else: tails[i] = x\nreturn len(tails)"
+        ],
+        solutions: {
+            python: code([
+                "import bisect",
+                "import sys",
+                "",
+                "def lis(nums):",
+                "    tails = []",
+                "    for x in nums:",
+                "        i = bisect.bisect_left(tails, x)",
+                "        if i == len(tails):",
+                "            tails.append(x)",
+                "        else:",
+                "            tails[i] = x",
+                "    return len(tails)",
+                "",
+                "if __name__ == \"__main__\":",
+                "    data = sys.stdin.read().split()",
+                "    nums = list(map(int, data)) if data else [10, 9, 2, 5, 3, 7, 101, 18]",
+                "    print(lis(nums))"
+            ]),
+            javascript: code([
+                "function lis(nums) {",
+                "    const tails = [];",
+                "    for (const x of nums) {",
+                "        let lo = 0;",
+                "        let hi = tails.length;",
+                "        while (lo < hi) {",
+                "            const mid = (lo + hi) >> 1;",
+                "            if (tails[mid] < x) {",
+                "                lo = mid + 1;",
+                "            } else {",
+                "                hi = mid;",
+                "            }",
+                "        }",
+                "        tails[lo] = x;",
+                "    }",
+                "    return tails.length;",
+                "}",
+                "",
+                "const data = require(\"fs\").readFileSync(0, \"utf8\").trim();",
+                "const nums = data ? data.split(/\\s+/).map(Number) : [10, 9, 2, 5, 3, 7, 101, 18];",
+                "console.log(lis(nums));"
+            ])
+        },
+        tests: [
+            { input: "10 9 2 5 3 7 101 18", expectedOutput: "4", hidden: false },
+            { input: "0 1 0 3 2 3", expectedOutput: "4", hidden: false },
+            { input: "7 7 7 7", expectedOutput: "1", hidden: false },
+            { input: "1 3 6 7 9 4 10 5 6", expectedOutput: "6", hidden: true },
+            { input: "5", expectedOutput: "1", hidden: true },
+            { input: "4 10 4 3 8 9", expectedOutput: "3", hidden: true }
+        ],
+        source: "bundled"
+    }
+];
@@ -0,0 +1,164 @@
+import { getLanguageDefinitions, findLanguageDefinition } from "./languageConfig";
+
+/**
+ * How comments are written in one language. Every piece of text the
+ * extension writes into a file (question, hints, evaluation) and every
+ * comment it reads back (user-written questions, its own markers) goes
+ * through this, so each language gets comments it can still run with.
+ */
+export interface CommentSyntax {
+    line: string | null;                // e.g. "#" or "//"
+    block: [string, string] | null;     // e.g. ["/*", "*/"]
+    docstring: boolean;                 // a leading """ or ''' string counts as a comment
+}
+
+// Used when the language is unknown; matches what earlier versions wrote
+const FALLBACK_SYNTAX: CommentSyntax = { line: "//", block: ["/*", "*/"], docstring: false };
+
+// Languages whose leading triple-quoted string is documentation
+const DOCSTRING_LANGUAGES = new Set(["python"]);
+const DOCSTRING_QUOTES = ['"""', "'''"];
+
+/**
+ * Comment syntax for a document, taken from the language registry
+ * (including the user's "codeforgex.languages" entries).
+ */
+export function getCommentSyntax(languageId: string, filePath: string): CommentSyntax {
+    const definition = findLanguageDefinition(getLanguageDefinitions(), languageId, filePath);
+    if (!definition || (!definition.lineComment && !definition.blockComment)) {
+        return FALLBACK_SYNTAX;
+    }
+
+    return {
+        line: definition.lineComment ?? null,
+        block: definition.blockComment ?? null,
+        docstring: DOCSTRING_LANGUAGES.has(languageId)
+    };
+}
+
+/**
+ * Turns one line of text into a comment. Languages without line
+ * comments get a block comment per line, so every inserted line can
+ * still be recognised and removed on its own.
+ */
+export function commentLine(syntax: CommentSyntax, text: string): string {
+    if (syntax.line) {
+        return text ? `${syntax.line} ${text}` : syntax.line;
+    }
+
+    const [open, close] = syntax.block!;
+    return text ? `${open} ${text} ${close}` : `${open} ${close}`;
+}
+
+/**
+ * Comments out every line of a (multi-line) text.
+ */
+export function commentLines(syntax: CommentSyntax, text: string): string {
+    return text
+        .split("\n")
+        .map(line => commentLine(syntax, line))
+        .join("\n");
+}
+
+/**
+ * True for a line that is a comment on its own, as commentLine() writes them.
+ */
+export function isCommentLine(syntax: CommentSyntax, line: string): boolean {
+    const trimmed = line.trim();
+
+    if (syntax.line && trimmed.startsWith(syntax.line)) {
+        return true;
+    }
+    if (syntax.block) {
+        const [open, close] = syntax.block;
+        return trimmed.startsWith(open) && trimmed.endsWith(close) && trimmed.length >= open.length + close.length;
+    }
+    return false;
+}
+
+/**
+ * The text of a comment line without its comment markers.
+ */
+export function uncommentLine(syntax: CommentSyntax, line: string): string {
+    const trimmed = line.trim();
+
+    if (syntax.line && trimmed.startsWith(syntax.line)) {
+        return trimmed.slice(syntax.line.length).trim();
+    }
+    if (syntax.block && isCommentLine(syntax, trimmed)) {
+        const [open, close] = syntax.block;
+        return trimmed.slice(open.length, trimmed.length - close.length).trim();
+    }
+    return trimmed;
+}
+
+/**
+ * True for a comment line whose text starts with marker, e.g. "Hint:".
+ */
+export function isMarkerLine(syntax: CommentSyntax, line: string, marker: string): boolean {
+    return isCommentLine(syntax, line) && uncommentLine(syntax, line).startsWith(marker);
+}
+
+/**
+ * Reads the comment at the top of a file, before any code: a run of
+ * line comments, a block comment, or (Python) a docstring. Leading
+ * blank lines are skipped and the comment's lines are joined with
+ * spaces. Returns null when the file does not start with a comment
+ * that has any text in it.
+ */
+export function readLeadingComment(syntax: CommentSyntax, content: string): string | null {
+    const lines = content.split("\n");
+    let index = 0;
+    while (index < lines.length && lines[index].trim() === "") {
+        index++;
+    }
+    if (index === lines.length) {
+        return null;
+    }
+
+    const first = lines[index].trim();
+    let collected: string[] = [];
+
+    if (syntax.line && first.startsWith(syntax.line)) {
+        // Consecutive line comments; a blank line ends the block
+        for (; index < lines.length && lines[index].trim().startsWith(syntax.line); index++) {
+            collected.push(uncommentLine(syntax, lines[index]));
+        }
+    } else if (syntax.block && first.startsWith(syntax.block[0])) {
+        collected = readDelimited(lines, index, syntax.block[0], syntax.block[1])
+            // " * text" continuation lines of /** ... */ style comments
+            .map(line => line.replace(/^\*(?!\/)\s?/, ""));
+    } else if (syntax.docstring) {
+        const quote = DOCSTRING_QUOTES.find(candidate => first.startsWith(candidate));
+        if (quote) {
+            collected = readDelimited(lines, index, quote, quote);
+        }
+    }
+
+    const text = collected
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .join(" ");
+    return text.length > 0 ? text : null;
+}
+
+// Lines of a delimited comment starting at lines[start], without the
+// delimiters. An unterminated comment runs to the end of the file.
+function readDelimited(lines: string[], start: number, open: string, close: string): string[] {
+    const collected: string[] = [];
+    let current = lines[start].trim().slice(open.length);
+
+    for (let index = start; index < lines.length; index++) {
+        if (index > start) {
+            current = lines[index].trim();
+        }
+
+        const end = current.indexOf(close);
+        if (end !== -1) {
+            collected.push(current.slice(0, end));
+            break;
+        }
+        collected.push(current);
+    }
+    return collected;
+}
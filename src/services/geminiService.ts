@@ -1,13 +1,99 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getTemperature, AiRequest, GenerateOptions } from "./aiProvider";
+import { sendAiRequest } from "./aiPipeline";
+import {
+    PracticeQuestion,
+    CodeEvaluation,
+    LineExplanation,
+    Validator,
+    SchemaError,
+    AiResponseError,
+    parseJsonResponse,
+    validatePracticeQuestion,
+    validateCodeEvaluation,
+    validateLineExplanations
+} from "./aiSchemas";
+import { getAiCache, aiCacheKey } from "./aiCache";
+
+// Prompts live here; the model behind them is chosen by
+// the "codeforgex.ai.provider" setting (see aiProvider.ts).
+
+const MAX_STRUCTURED_ATTEMPTS = 3;
 
-const apiKey = process.env.GEMINI_API_KEY;
+/**
+ * Options for requests whose answers are cached (evaluations and
+ * explanations). regenerate skips the cached answer and replaces it;
+ * onCacheHit is called when a cached answer is returned instead of
+ * asking the model.
+ */
+export interface CachedGenerateOptions extends GenerateOptions {
+    regenerate?: boolean;
+    onCacheHit?: () => void;
+}
 
-if (!apiKey) {
-    throw new Error("GEMINI_API_KEY not configured. Add it to your .env file.");
+/**
+ * Returns the cached answer for key, or produces, caches and returns a new one.
+ */
+async function withCache<T>(
+    key: string,
+    options: CachedGenerateOptions,
+    produce: () => Promise<T>
+): Promise<T> {
+    const cache = getAiCache();
+
+    if (cache && !options.regenerate) {
+        const cached = cache.get<T>(key);
+        if (cached !== undefined) {
+            options.onCacheHit?.();
+            return cached;
+        }
+    }
+
+    const value = await produce();
+    await cache?.set(key, value);
+    return value;
 }
 
-const genAI = new GoogleGenerativeAI(apiKey);
-const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+/**
+ * Sends a prompt that must come back as JSON, validates the reply and
+ * re-prompts with the validation error when the model drifts from the
+ * schema. Throws AiResponseError once every attempt has failed;
+ * request failures come from sendAiRequest() (AiRequestError or
+ * AiCancelledError).
+ */
+async function generateStructured<T>(
+    request: AiRequest,
+    validate: Validator<T>,
+    options: GenerateOptions
+): Promise<T> {
+    let prompt = request.prompt;
+    let lastResponse = "";
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+        lastResponse = await sendAiRequest({ ...request, prompt }, options);
+
+        try {
+            return validate(parseJsonResponse(lastResponse));
+        } catch (error: any) {
+            if (!(error instanceof SchemaError)) {
+                throw error;
+            }
+
+            lastError = error.message;
+            console.warn(`AI returned malformed ${request.task} (attempt ${attempt}): ${lastError}`);
+
+            prompt = `${request.prompt}
+
+Your previous reply could not be used: ${lastError}
+Reply again with ONLY the JSON object described above. No markdown, no extra text.`;
+        }
+    }
+
+    throw new AiResponseError(
+        `The AI returned an invalid ${request.task} response ${MAX_STRUCTURED_ATTEMPTS} times (${lastError}).`,
+        lastResponse
+    );
+}
 
 /**
  * Generate a practice question with hint and solution.
@@ -15,31 +101,31 @@ const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
 export async function generatePracticeQuestion(
     topic: string,
     language: string,
-    difficulty: string
-): Promise<string> {
-    try {
-        let languageInstruction = "";
+    difficulty: string,
+    options: GenerateOptions = {}
+): Promise<PracticeQuestion> {
+    let languageInstruction = "";
 
-        if (language === "javascript") {
-            languageInstruction = `
+    if (language === "javascript") {
+        languageInstruction = `
 - Generate PURE JavaScript.
 - DO NOT use TypeScript type annotations.
 - DO NOT use ": number", ": string", "number[]", etc.
 - Do NOT write function signatures with types.
 `;
-        } else if (language === "typescript") {
-            languageInstruction = `
+    } else if (language === "typescript") {
+        languageInstruction = `
 - Generate proper TypeScript.
 - Type annotations are allowed.
 `;
-        } else if (language === "python") {
-            languageInstruction = `
+    } else if (language === "python") {
+        languageInstruction = `
 - Generate proper Python.
 - Do NOT use JavaScript syntax.
 `;
-        }
+    }
 
-        const prompt = `
+    const prompt = `
 Generate a ${difficulty} level coding practice problem.
 
 Topic: ${topic}
@@ -47,68 +133,48 @@ Programming Language: ${language}
 
 ${languageInstruction}
 
-Return output STRICTLY in this format:
-
-[QUESTION]
-Clear problem statement only.
-
-[HINT]
-A helpful hint for solving the problem.
-
-[SOLUTION]
-Complete correct solution in ${language}.
+Return ONLY a JSON object (no markdown, no backticks, no text around it) with exactly these keys:
+
+{
+  "question": "Clear problem statement only, including the input and output format.",
+  "hints": [
+    "Level 1 — a gentle nudge that points in the right direction without naming the technique.",
+    "Level 2 — the approach: which technique or data structure to use and why.",
+    "Level 3 — step-by-step pseudocode of the algorithm (not ${language} code)."
+  ],
+  "solution": "Complete correct solution in ${language}.",
+  "tests": [
+    { "input": "<exact stdin text>", "expectedOutput": "<exact stdout text>", "hidden": false }
+  ]
+}
 
-Rules for [SOLUTION]:
-- DO NOT wrap the solution in markdown.
-- DO NOT use triple backticks.
-- Return raw code only inside [SOLUTION].
-- Do not add extra headings.
-- Do not add explanations outside blocks.
-- Do not remove the block labels.
+Rules for "solution":
+- It is a JSON string: escape newlines as \\n and quotes as \\".
+- Raw code only — no markdown, no triple backticks, no explanations.
 - Solution must be valid runnable ${language} code.
 - Solution MUST include both function definition AND an execution block.
 - After defining the function, ALWAYS include a small execution block that:
-  * Calls the function with sample input.
-  * Prints or logs the result.
+  * Reads the input from standard input (stdin) in the format stated in "question".
+  * Falls back to a sample input when stdin is empty.
+  * Calls the function and prints ONLY the result.
 ${language === 'python' ? `- For Python: Add execution block as:
   if __name__ == "__main__":
-      print(function_name(sample_input))` : `- For ${language}: Add execution block as:
-  console.log(function_name(sample_input));`}
+      data = sys.stdin.read()
+      print(function_name(parse(data) if data.strip() else sample_input))` : `- For ${language}: Add execution block that reads stdin
+  (e.g. require("fs").readFileSync(0, "utf8")) and logs function_name(input).`}
 - The code must be immediately runnable when user clicks Run.
-- Do not include any markdown or explanations.
-`;
-
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            generationConfig: { temperature: 0.6 },
-        });
-
-        let rawText = result.response.text() || "No content generated.";
-
-        // Safe cleanup — strip markdown artifacts
-        rawText = rawText
-            .replace(/```[\w]*\n?/g, "")
-            .replace(/```/g, "")
-            .replace(/^\s*[=-]{3,}\s*$/gm, "")
-            .replace(/Question:/gi, "")
-            .trim();
-
-        return rawText;
 
-    } catch (error: any) {
-        const errorMessage = error?.message || JSON.stringify(error);
-        console.error("GEMINI ERROR:", errorMessage);
-
-        if (errorMessage.includes("API_KEY_INVALID") || errorMessage.includes("401")) {
-            return "Gemini API Error: Invalid API key. Please check your GEMINI_API_KEY in .env";
-        }
-
-        if (errorMessage.includes("429") || errorMessage.includes("RESOURCE_EXHAUSTED")) {
-            return "Gemini API Error: Quota exceeded. Check your Google AI Studio billing.";
-        }
+Rules for "tests":
+- 3 visible examples ("hidden": false) that match the question statement.
+- At least 3 hidden edge cases ("hidden": true): empty/minimal input, large values, duplicates, negatives, etc.
+- "expectedOutput" must be exactly what the solution prints for "input".
+`;
 
-        return `Gemini Error: ${errorMessage}`;
-    }
+    return generateStructured(
+        { task: "practiceQuestion", prompt, temperature: getTemperature("practiceQuestion"), language },
+        validatePracticeQuestion,
+        options
+    );
 }
 
 /**
@@ -117,8 +183,9 @@ ${language === 'python' ? `- For Python: Add execution block as:
 export async function evaluateCode(
     languageId: string,
     storedSolution: string,
-    userCode: string
-): Promise<string> {
+    userCode: string,
+    options: CachedGenerateOptions = {}
+): Promise<CodeEvaluation> {
     const prompt = `You are a code reviewer. Analyze this ${languageId} code and provide a SHORT evaluation.
 
 REFERENCE SOLUTION:
@@ -127,78 +194,71 @@ ${storedSolution}
 USER'S CODE:
 ${userCode}
 
-Respond EXACTLY in this format (no markdown, no decorators):
-
-Code Evaluation Summary:
-
-Correctness:
-<2 sentences max about correctness. Use "Your code">
-
-Edge Cases:
-<2 sentences max, or "Handles edge cases well">
-
-Time Complexity:
-<2 sentences max, or "Complexity is appropriate">
-
-Code Quality:
-<2 sentences max, or "Code is clean and readable">
-
-Final Verdict:
-<Correct / Partially Correct / Needs Improvement>
-
-IF YOUR CODE NEEDS IMPROVEMENTS, append this section ONLY IF NEEDED:
-
-Suggestions:
-
-LINE <number>:
-Issue: <brief issue description>
-Better Approach: <what to do instead>
-Example Replacement: <1-2 lines of code>
-
-Only suggest lines with clear improvements. Keep to 2-3 suggestions maximum.
+Return ONLY a JSON object (no markdown, no backticks, no text around it) with exactly these keys:
+
+{
+  "correctness": "<2 sentences max about correctness. Use \"Your code\">",
+  "edgeCases": "<2 sentences max, or \"Handles edge cases well\">",
+  "timeComplexity": "<2 sentences max, or \"Complexity is appropriate\">",
+  "codeQuality": "<2 sentences max, or \"Code is clean and readable\">",
+  "verdict": "Correct" | "Partially Correct" | "Needs Improvement",
+  "suggestions": [
+    {
+      "line": <line number in USER'S CODE, starting at 1>,
+      "issue": "<brief issue description>",
+      "betterApproach": "<what to do instead>",
+      "exampleReplacement": "<1-2 lines of code>"
+    }
+  ]
+}
 
 IMPORTANT:
-- Do NOT add markdown formatting.
-- Do NOT wrap anything in backticks.
-- Do NOT add decorative lines or borders.
-- Speak directly: "Your code" not "the user's code".
-- If no improvements needed, do NOT include Suggestions section.`;
-
-    const result = await model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig: { temperature: 0.4 },
-    });
-
-    return result.response.text() || "Evaluation could not be generated.";
+- Only suggest lines with clear improvements. Keep to 2-3 suggestions maximum.
+- If no improvements are needed, return "suggestions": [].
+- Speak directly: "Your code" not "the user's code".`;
+
+    // The verdict depends on the reference solution as well as the user's code
+    return withCache(aiCacheKey("evaluation", languageId, userCode, storedSolution), options, () => generateStructured(
+        { task: "evaluation", prompt, temperature: getTemperature("evaluation"), language: languageId, code: userCode },
+        validateCodeEvaluation,
+        options
+    ));
 }
 
 /**
- * Explain code by adding inline comments before each line.
+ * Explain code line by line. Returns one short explanation per
+ * meaningful line; the code itself is never rewritten.
  */
 export async function explainCode(
     languageId: string,
-    code: string
-): Promise<string> {
+    code: string,
+    options: CachedGenerateOptions = {}
+): Promise<LineExplanation[]> {
     const prompt = `
-Explain the following ${languageId} code.
+Explain the following ${languageId} code line by line.
+
+Return ONLY a JSON object (no markdown, no backticks, no text around it) in this shape:
+
+{
+  "lines": [
+    { "line": <line number in the code below, starting at 1>, "explanation": "<one short sentence>" }
+  ]
+}
 
 Rules:
-- Add ONE short comment line before each line of code.
-- Do NOT remove original code.
-- Do NOT add markdown formatting.
-- Do NOT wrap in triple backticks.
-- Return ONLY code with explanation comments.
+- One entry per line that does something; skip blank lines and lone braces.
+- Keep each explanation to one short sentence.
+- Do NOT repeat the code in the explanation.
 
 Code:
-${code}
+${numberLines(code)}
 `;
 
-    const result = await model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig: { temperature: 0.3 },
-    });
-
-    return result.response.text() || "";
+    return withCache(aiCacheKey("explainCode", languageId, code), options, () => generateStructured(
+        { task: "explainCode", prompt, temperature: getTemperature("explainCode"), language: languageId, code },
+        validateLineExplanations,
+        options
+    ));
 }
 
 /**
@@ -206,30 +266,42 @@ ${code}
  */
 export async function explainSelection(
     languageId: string,
-    selectedText: string
-): Promise<string> {
+    selectedText: string,
+    options: CachedGenerateOptions = {}
+): Promise<LineExplanation[]> {
     const prompt = `You are a coding tutor explaining code to a beginner.
 
 Explain the following ${languageId} code selection line by line.
 
+Return ONLY a JSON object (no markdown, no backticks, no text around it) in this shape:
+
+{
+  "lines": [
+    { "line": <line number in the selection below, starting at 1>, "explanation": "<what that line does>" }
+  ]
+}
+
 Rules:
-- Before EACH line of code, add ONE short comment explaining what that line does.
+- One entry for EACH line of code; skip blank lines.
 - Use very simple, clear language. Avoid jargon.
 - Be creative and use different analogies or examples each time.
-- If helpful, add a tiny inline example in the comment.
-- Do NOT remove any original code lines.
-- Do NOT add markdown formatting.
-- Do NOT wrap in triple backticks.
-- Do NOT add decorative borders or separators.
-- Return ONLY the commented + original code. Nothing else.
+- If helpful, add a tiny inline example in the explanation.
+- Keep each explanation to one or two short sentences.
 
 Code to explain:
-${selectedText}`;
+${numberLines(selectedText)}`;
 
-    const result = await model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig: { temperature: 0.7 },
-    });
+    return withCache(aiCacheKey("explainSelection", languageId, selectedText), options, () => generateStructured(
+        { task: "explainSelection", prompt, temperature: getTemperature("explainSelection"), language: languageId, code: selectedText },
+        validateLineExplanations,
+        options
+    ));
+}
 
-    return result.response.text()?.trim() || selectedText;
+// Prefixes each line with its number so the model can refer to lines reliably
+function numberLines(code: string): string {
+    return code
+        .split("\n")
+        .map((line, index) => `${index + 1}: ${line}`)
+        .join("\n");
 }
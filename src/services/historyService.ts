@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { PracticeData } from './apiService';
+import { EvaluationVerdict } from './aiSchemas';
+
+// globalState key — history covers every workspace the user practised in
+const HISTORY_KEY = 'codeforgex.practiceHistory';
+
+// Oldest records are dropped beyond this, keeping globalState small
+const MAX_RECORDS = 5000;
+
+/**
+ * One completed practice session as kept on this machine: what was
+ * sent to the backend, plus what the statistics need that the backend
+ * payload does not carry.
+ */
+export interface PracticeRecord extends PracticeData {
+    difficulty: string | null;
+    seconds: number;            // timeTaken in seconds
+    verdict: EvaluationVerdict | null;  // judge result, else last evaluation; null if neither
+}
+
+/**
+ * Local, offline record of completed practice sessions. Written for
+ * every completed session whether or not it ever reaches the backend.
+ */
+export class PracticeHistory {
+
+    constructor(private state: vscode.Memento) {}
+
+    /**
+     * All records, oldest first.
+     */
+    all(): PracticeRecord[] {
+        return this.state.get<PracticeRecord[]>(HISTORY_KEY, []);
+    }
+
+    count(): number {
+        return this.all().length;
+    }
+
+    async add(record: PracticeRecord): Promise<void> {
+        const records = this.all().filter(existing => existing.sessionId !== record.sessionId);
+        records.push(record);
+        await this.state.update(HISTORY_KEY, records.slice(-MAX_RECORDS));
+    }
+
+    async clear(): Promise<void> {
+        await this.state.update(HISTORY_KEY, undefined);
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Why the timer was paused for the user: no activity for the idle
+ * period, or the VS Code window lost focus.
+ */
+export type AwayReason = 'idle' | 'blur';
+
+export interface IdleHandlers {
+    away(reason: AwayReason): void;
+    back(awaySeconds: number): void;
+}
+
+/**
+ * Decides when the user has stepped away from practice and when they
+ * are back. Activity (edits, cursor moves, runs, focus) is reported
+ * with activity(); check() is called periodically and reports the user
+ * away once the idle period passes without any. The idle period itself
+ * still counts as practice — reading and thinking look the same — and
+ * only the time after it is reported as away.
+ */
+export class IdleMonitor {
+
+    private lastActivityAt: number;
+    private awaySince: number | null = null;
+
+    constructor(private handlers: IdleHandlers, private now: () => number = Date.now) {
+        this.lastActivityAt = now();
+    }
+
+    activity(): void {
+        this.lastActivityAt = this.now();
+        if (this.awaySince !== null) {
+            this.handlers.back(this.settle());
+        }
+    }
+
+    blur(): void {
+        this.goAway('blur');
+    }
+
+    /**
+     * Reports the user away if nothing happened for idleMs (0 = never).
+     */
+    check(idleMs: number): void {
+        if (idleMs > 0 && this.now() - this.lastActivityAt >= idleMs) {
+            this.goAway('idle');
+        }
+    }
+
+    isAway(): boolean {
+        return this.awaySince !== null;
+    }
+
+    /**
+     * Ends the current away period without reporting it, and returns
+     * its length in seconds (0 if the user was not away).
+     */
+    settle(): number {
+        if (this.awaySince === null) {
+            return 0;
+        }
+        const seconds = Math.max(0, Math.round((this.now() - this.awaySince) / 1000));
+        this.awaySince = null;
+        return seconds;
+    }
+
+    private goAway(reason: AwayReason): void {
+        if (this.awaySince === null) {
+            this.awaySince = this.now();
+            this.handlers.away(reason);
+        }
+    }
+}
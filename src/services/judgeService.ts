@@ -0,0 +1,155 @@
+import { getLanguageConfig } from "./languageConfig";
+import { runProcess } from "./runService";
+import { TestCase, EvaluationVerdict } from "./aiSchemas";
+import {
+    RunVerdict,
+    SandboxLimits,
+    createSandboxDir,
+    removeSandboxDir,
+    runSandboxed,
+    describeVerdict
+} from "./sandbox";
+
+// Compilers run outside the sandbox limits, with a generous timeout
+const COMPILE_TIMEOUT_MS = 30000;
+
+export interface TestCaseResult {
+    index: number;              // 1-based, as shown to the user
+    hidden: boolean;
+    passed: boolean;
+    input: string;
+    expectedOutput: string;
+    actualOutput: string;
+    verdict: RunVerdict;        // "OK" only means it ran cleanly, not that the output matched
+    error?: string;             // limit, crash description or stderr
+    durationMs: number;
+}
+
+export interface JudgeReport {
+    results: TestCaseResult[];
+    passed: number;
+    total: number;
+    passRate: number;           // 0..1
+    compileError?: string;      // set when the program never ran
+}
+
+/**
+ * Compiles (when the language needs it) and runs the file once per
+ * test case in the sandbox, feeding the case input on stdin and
+ * comparing stdout. Works on a temporary copy of the file.
+ */
+export async function judgeFile(
+    languageId: string,
+    filePath: string,
+    tests: TestCase[],
+    limits: SandboxLimits
+): Promise<JudgeReport> {
+
+    if (!getLanguageConfig(languageId, filePath)) {
+        throw new Error(`Language "${languageId}" is not supported for Submit.`);
+    }
+
+    const sandbox = await createSandboxDir(filePath);
+
+    try {
+        return await judgeInSandbox(languageId, sandbox.filePath, sandbox.dir, tests, limits);
+    } finally {
+        await removeSandboxDir(sandbox.dir);
+    }
+}
+
+async function judgeInSandbox(
+    languageId: string,
+    filePath: string,
+    cwd: string,
+    tests: TestCase[],
+    limits: SandboxLimits
+): Promise<JudgeReport> {
+
+    const config = getLanguageConfig(languageId, filePath)!;
+
+    if (config.compile) {
+        const compiled = await runProcess(config.compile.command, config.compile.args, {
+            cwd,
+            timeoutMs: COMPILE_TIMEOUT_MS
+        });
+
+        if (compiled.exitCode !== 0) {
+            return {
+                results: [],
+                passed: 0,
+                total: tests.length,
+                passRate: 0,
+                compileError: compiled.stderr.trim() || compiled.stdout.trim() || "Compilation failed."
+            };
+        }
+    }
+
+    const results: TestCaseResult[] = [];
+
+    for (let i = 0; i < tests.length; i++) {
+        const test = tests[i];
+
+        const run = await runSandboxed(config.run.command, config.run.args, {
+            cwd,
+            input: test.input,
+            limits
+        });
+
+        let error: string | undefined;
+        if (run.verdict === "RE" && run.stderr.trim()) {
+            error = run.stderr.trim();
+        } else if (run.verdict !== "OK") {
+            error = describeVerdict(run, limits);
+        }
+
+        results.push({
+            index: i + 1,
+            hidden: test.hidden,
+            passed: !error && outputsMatch(run.stdout, test.expectedOutput),
+            input: test.input,
+            expectedOutput: test.expectedOutput,
+            actualOutput: run.stdout,
+            verdict: run.verdict,
+            error,
+            durationMs: run.durationMs
+        });
+    }
+
+    const passed = results.filter(r => r.passed).length;
+
+    return {
+        results,
+        passed,
+        total: tests.length,
+        passRate: tests.length > 0 ? passed / tests.length : 0
+    };
+}
+
+/**
+ * The submission's result on the evaluation scale, so history and
+ * reviews grade a judged session the same way as an evaluated one.
+ */
+export function judgeVerdict(report: JudgeReport): EvaluationVerdict {
+    if (report.total > 0 && report.passed === report.total) {
+        return "Correct";
+    }
+    return report.passed > 0 ? "Partially Correct" : "Needs Improvement";
+}
+
+/**
+ * Compares program output the way most online judges do:
+ * line endings and trailing whitespace are not significant.
+ */
+export function outputsMatch(actual: string, expected: string): boolean {
+    return normalizeOutput(actual) === normalizeOutput(expected);
+}
+
+function normalizeOutput(text: string): string {
+    return text
+        .replace(/\r\n/g, "\n")
+        .split("\n")
+        .map(line => line.trimEnd())
+        .join("\n")
+        .trim();
+}
@@ -1,3 +1,4 @@
+import * as vscode from "vscode";
 import * as path from "path";
 import * as os from "os";
 
@@ -12,6 +13,183 @@ export interface LanguageConfig {
     };
 }
 
+/**
+ * How to build and run one language, as written in the
+ * "codeforgex.languages" setting. Command templates are either an
+ * array of arguments or a single string split on spaces, and may use:
+ *
+ *   ${file}        full path of the source file
+ *   ${fileDir}     folder containing the file
+ *   ${fileName}    file name with extension
+ *   ${fileBase}    file name without extension
+ *   ${outputPath}  full path for a compiled executable (.exe on Windows)
+ */
+export interface LanguageDefinition {
+    extensions: string[];           // e.g. [".py"], used when the languageId is unknown
+    compile?: string | string[];
+    run: string | string[];
+    lineComment?: string;           // e.g. "//"
+    blockComment?: [string, string]; // e.g. ["/*", "*/"]
+}
+
+// Shipped definitions. Entries in "codeforgex.languages" are merged
+// over these field by field, so overriding "run" keeps the extension
+// and comment syntax, and new languageIds can be added outright.
+export const BUILT_IN_LANGUAGES: Record<string, LanguageDefinition> = {
+    python: {
+        extensions: [".py"],
+        run: ["python3", "${file}"],
+        lineComment: "#"
+    },
+    javascript: {
+        extensions: [".js", ".mjs", ".cjs"],
+        run: ["node", "${file}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    typescript: {
+        extensions: [".ts"],
+        run: ["npx", "ts-node", "${file}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    java: {
+        extensions: [".java"],
+        compile: ["javac", "${file}"],
+        run: ["java", "-cp", "${fileDir}", "${fileBase}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    c: {
+        extensions: [".c"],
+        compile: ["gcc", "${file}", "-o", "${outputPath}"],
+        run: ["${outputPath}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    cpp: {
+        extensions: [".cpp", ".cc", ".cxx"],
+        compile: ["g++", "${file}", "-o", "${outputPath}"],
+        run: ["${outputPath}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    go: {
+        extensions: [".go"],
+        run: ["go", "run", "${file}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    ruby: {
+        extensions: [".rb"],
+        run: ["ruby", "${file}"],
+        lineComment: "#"
+    },
+    rust: {
+        extensions: [".rs"],
+        compile: ["rustc", "-O", "${file}", "-o", "${outputPath}"],
+        run: ["${outputPath}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    kotlin: {
+        extensions: [".kt"],
+        compile: ["kotlinc", "${file}", "-include-runtime", "-d", "${fileDir}/${fileBase}.jar"],
+        run: ["java", "-jar", "${fileDir}/${fileBase}.jar"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    csharp: {
+        // Single-file C# needs the dotnet-script tool (dotnet tool install -g dotnet-script)
+        extensions: [".cs", ".csx"],
+        run: ["dotnet", "script", "${file}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    php: {
+        extensions: [".php"],
+        run: ["php", "${file}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    swift: {
+        extensions: [".swift"],
+        run: ["swift", "${file}"],
+        lineComment: "//",
+        blockComment: ["/*", "*/"]
+    },
+    haskell: {
+        extensions: [".hs"],
+        run: ["runghc", "${file}"],
+        lineComment: "--",
+        blockComment: ["{-", "-}"]
+    },
+    shellscript: {
+        extensions: [".sh", ".bash"],
+        run: ["bash", "${file}"],
+        lineComment: "#"
+    }
+};
+
+// languageIds some extensions report for languages above
+const LANGUAGE_ALIASES: Record<string, string> = {
+    "c++": "cpp",
+    "bash": "shellscript",
+    "sh": "shellscript"
+};
+
+/**
+ * Built-in languages with the user's "codeforgex.languages" entries merged in.
+ */
+export function getLanguageDefinitions(): Record<string, LanguageDefinition> {
+    const userLanguages = vscode.workspace
+        .getConfiguration("codeforgex")
+        .get<Record<string, Partial<LanguageDefinition>>>("languages", {});
+
+    return mergeLanguageDefinitions(userLanguages);
+}
+
+/**
+ * Merges user entries over the built-ins. A new language without a
+ * run command cannot be executed and is ignored.
+ */
+export function mergeLanguageDefinitions(
+    userLanguages: Record<string, Partial<LanguageDefinition>>
+): Record<string, LanguageDefinition> {
+    const merged: Record<string, LanguageDefinition> = { ...BUILT_IN_LANGUAGES };
+
+    for (const [languageId, override] of Object.entries(userLanguages)) {
+        const definition = { ...merged[languageId], ...override } as LanguageDefinition;
+        definition.extensions = definition.extensions ?? [];
+
+        if (!definition.run) {
+            console.warn(`CodeForgeX: language "${languageId}" has no run command and was ignored.`);
+            continue;
+        }
+        merged[languageId] = definition;
+    }
+
+    return merged;
+}
+
+/**
+ * Finds the definition for a document: by languageId first (aliases
+ * included), then by file extension for languages VS Code does not know.
+ */
+export function findLanguageDefinition(
+    definitions: Record<string, LanguageDefinition>,
+    languageId: string,
+    filePath: string
+): LanguageDefinition | null {
+    const id = LANGUAGE_ALIASES[languageId] ?? languageId;
+    if (definitions[id]) {
+        return definitions[id];
+    }
+
+    const extension = path.extname(filePath).toLowerCase();
+    return Object.values(definitions).find(definition => definition.extensions.includes(extension)) ?? null;
+}
+
 /**
  * Returns language execution configuration
  * based on VS Code languageId and file path.
@@ -20,128 +198,43 @@ export function getLanguageConfig(
     languageId: string,
     filePath: string
 ): LanguageConfig | null {
+    const definition = findLanguageDefinition(getLanguageDefinitions(), languageId, filePath);
+    return definition ? buildLanguageConfig(definition, filePath) : null;
+}
 
+/**
+ * Fills a definition's command templates in for one file.
+ */
+export function buildLanguageConfig(definition: LanguageDefinition, filePath: string): LanguageConfig {
     const fileDir = path.dirname(filePath);
     const fileName = path.basename(filePath);
-    const fileNameWithoutExt = fileName.split(".")[0];
-
+    const fileBase = fileName.split(".")[0];
     const isWindows = os.platform() === "win32";
 
-    switch (languageId) {
-
-        // =========================
-        // Python
-        // =========================
-        case "python":
-            return {
-                run: {
-                    command: "python3",
-                    args: [filePath]
-                }
-            };
-
-        // =========================
-        // JavaScript
-        // =========================
-        case "javascript":
-            return {
-                run: {
-                    command: "node",
-                    args: [filePath]
-                }
-            };
-
-        // =========================
-        // TypeScript
-        // =========================
-        case "typescript":
-            return {
-                run: {
-                    command: "npx",
-                    args: ["ts-node", filePath]
-                }
-            };
-
-        // =========================
-        // Java
-        // =========================
-        case "java":
-            return {
-                compile: {
-                    command: "javac",
-                    args: [filePath]
-                },
-                run: {
-                    command: "java",
-                    args: ["-cp", fileDir, fileNameWithoutExt]
-                }
-            };
-
-        // =========================
-        // C
-        // =========================
-        case "c":
-            const cOutput = isWindows
-                ? `${fileNameWithoutExt}.exe`
-                : `./${fileNameWithoutExt}`;
-
-            return {
-                compile: {
-                    command: "gcc",
-                    args: [filePath, "-o", fileNameWithoutExt]
-                },
-                run: {
-                    command: cOutput,
-                    args: []
-                }
-            };
-
-        // =========================
-        // C++
-        // =========================
-        case "cpp":
-        case "c++":
-            const cppOutput = isWindows
-                ? `${fileNameWithoutExt}.exe`
-                : `./${fileNameWithoutExt}`;
-
-            return {
-                compile: {
-                    command: "g++",
-                    args: [filePath, "-o", fileNameWithoutExt]
-                },
-                run: {
-                    command: cppOutput,
-                    args: []
-                }
-            };
-
-        // =========================
-        // Go
-        // =========================
-        case "go":
-            return {
-                run: {
-                    command: "go",
-                    args: ["run", filePath]
-                }
-            };
-
-        // =========================
-        // Ruby
-        // =========================
-        case "ruby":
-            return {
-                run: {
-                    command: "ruby",
-                    args: [filePath]
-                }
-            };
-
-        // =========================
-        // Default (Unsupported)
-        // =========================
-        default:
-            return null;
-    }
+    const values: Record<string, string> = {
+        file: filePath,
+        fileDir,
+        fileName,
+        fileBase,
+        outputPath: path.join(fileDir, isWindows ? `${fileBase}.exe` : fileBase)
+    };
+
+    const expand = (template: string | string[]) => {
+        const parts = Array.isArray(template) ? template : template.trim().split(/\s+/);
+        // Substituted after splitting, so paths with spaces stay one argument
+        const args = parts.map(part => part.replace(/\$\{(\w+)\}/g, (match, key) => values[key] ?? match));
+        return { command: args[0], args: args.slice(1) };
+    };
+
+    return {
+        compile: definition.compile ? expand(definition.compile) : undefined,
+        run: expand(definition.run)
+    };
+}
+
+/**
+ * languageIds that can be run, for the "not supported" message.
+ */
+export function supportedLanguageIds(): string[] {
+    return Object.keys(getLanguageDefinitions());
 }
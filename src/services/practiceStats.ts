@@ -0,0 +1,138 @@
+import { PracticeRecord } from './historyService';
+import { parentTopic, GENERAL_TOPIC } from './topics';
+
+// Weeks shown in the trend, current week included
+const TREND_WEEKS = 8;
+
+export interface GroupStats {
+    name: string;
+    solved: number;
+    medianSeconds: number | null;
+}
+
+export interface TrendPoint {
+    weekStart: string;              // local date of the Monday, "YYYY-MM-DD"
+    solved: number;
+    medianSeconds: number | null;   // null for weeks without practice
+    solutionViewRate: number | null;
+}
+
+/**
+ * Everything the statistics dashboard shows, computed from the local
+ * practice history alone.
+ */
+export interface PracticeStats {
+    solved: number;
+    medianSeconds: number | null;
+    hintUsageRate: number | null;       // fraction of sessions that revealed at least one hint
+    averageHints: number | null;
+    solutionViewRate: number | null;    // fraction of sessions that viewed the solution
+    byTopic: GroupStats[];              // top-level topics; a combined problem counts for each
+    byLanguage: GroupStats[];
+    byDifficulty: GroupStats[];
+    weekly: TrendPoint[];               // oldest week first
+    recent: PracticeRecord[];           // newest first
+}
+
+/**
+ * Middle value of the list (mean of the two middle values for an even
+ * count), or null when it is empty.
+ */
+export function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Seconds in a "MM:SS" (or "H:MM:SS") time, 0 if it cannot be read.
+ */
+export function parseDuration(time: string): number {
+    const parts = time.split(':').map(Number);
+    if (parts.length < 2 || parts.some(part => !Number.isFinite(part))) {
+        return 0;
+    }
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Aggregates the practice history. `now` decides which weeks the
+ * trend covers.
+ */
+export function computeStats(records: PracticeRecord[], now: Date = new Date()): PracticeStats {
+    return {
+        solved: records.length,
+        medianSeconds: median(records.map(secondsOf)),
+        hintUsageRate: rate(records, record => record.hintsUsed > 0),
+        averageHints: records.length > 0
+            ? records.reduce((total, record) => total + record.hintsUsed, 0) / records.length
+            : null,
+        solutionViewRate: rate(records, record => record.solutionViewed),
+        byTopic: groupBy(records, record => topicGroups(record)),
+        byLanguage: groupBy(records, record => [record.language]),
+        byDifficulty: groupBy(records, record => [record.difficulty ?? 'Not set']),
+        weekly: weeklyTrend(records, now),
+        recent: [...records].sort((a, b) => Date.parse(b.date) - Date.parse(a.date)).slice(0, 10)
+    };
+}
+
+function secondsOf(record: PracticeRecord): number {
+    return record.seconds ?? parseDuration(record.timeTaken);
+}
+
+function rate(records: PracticeRecord[], matches: (record: PracticeRecord) => boolean): number | null {
+    return records.length > 0 ? records.filter(matches).length / records.length : null;
+}
+
+function topicGroups(record: PracticeRecord): string[] {
+    const parents = record.topics.map(parentTopic);
+    return parents.length > 0 ? [...new Set(parents)] : [GENERAL_TOPIC];
+}
+
+// Most solved first; ties alphabetically
+function groupBy(records: PracticeRecord[], keysOf: (record: PracticeRecord) => string[]): GroupStats[] {
+    const groups = new Map<string, number[]>();
+    for (const record of records) {
+        for (const key of keysOf(record)) {
+            groups.set(key, [...(groups.get(key) ?? []), secondsOf(record)]);
+        }
+    }
+
+    return [...groups.entries()]
+        .map(([name, seconds]) => ({ name, solved: seconds.length, medianSeconds: median(seconds) }))
+        .sort((a, b) => b.solved - a.solved || a.name.localeCompare(b.name));
+}
+
+function weeklyTrend(records: PracticeRecord[], now: Date): TrendPoint[] {
+    const currentWeek = startOfWeek(now);
+    const points: TrendPoint[] = [];
+
+    for (let index = TREND_WEEKS - 1; index >= 0; index--) {
+        // Built from the date, not by subtracting weeks in ms, so DST shifts do not matter
+        const weekStart = new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - 7 * index);
+        const inWeek = records.filter(record => startOfWeek(new Date(record.date)).getTime() === weekStart.getTime());
+
+        points.push({
+            weekStart: localDate(weekStart),
+            solved: inWeek.length,
+            medianSeconds: median(inWeek.map(secondsOf)),
+            solutionViewRate: rate(inWeek, record => record.solutionViewed)
+        });
+    }
+
+    return points;
+}
+
+// Local midnight of the Monday on or before the date
+function startOfWeek(date: Date): Date {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+}
+
+function localDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
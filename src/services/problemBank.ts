@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import { TestCase, PracticeQuestion } from "./aiSchemas";
+import { BUNDLED_PROBLEMS } from "./bundledProblems";
+
+// User-added problems live next to other global extension data
+const USER_BANK_FILE = "problem-bank.json";
+
+export type Difficulty = "Easy" | "Medium" | "Hard";
+
+export interface BankProblem {
+    id: string;
+    title: string;
+    topic: string;
+    difficulty: Difficulty;
+    question: string;
+    hints: string[];                    // hint ladder, gentlest first
+    solutions: Record<string, string>;  // VS Code languageId → solution code
+    tests: TestCase[];
+    source: "bundled" | "user";
+}
+
+/**
+ * Local store of practice problems: the bundled set plus problems
+ * the user saved. Used directly from Start Practice when the AI
+ * provider fails, so practice keeps working offline.
+ */
+export class ProblemBank {
+
+    private userProblems: BankProblem[] = [];
+
+    constructor(private storageDir: vscode.Uri) {}
+
+    private get userFile(): vscode.Uri {
+        return vscode.Uri.joinPath(this.storageDir, USER_BANK_FILE);
+    }
+
+    /**
+     * Loads user-added problems. A missing or unreadable file just
+     * means the user has not saved any problems yet.
+     */
+    async load(): Promise<void> {
+        try {
+            const raw = await vscode.workspace.fs.readFile(this.userFile);
+            const parsed = JSON.parse(Buffer.from(raw).toString("utf8"));
+            this.userProblems = Array.isArray(parsed) ? parsed : [];
+        } catch {
+            this.userProblems = [];
+        }
+    }
+
+    all(): BankProblem[] {
+        return [...BUNDLED_PROBLEMS, ...this.userProblems];
+    }
+
+    /**
+     * Finds problems for a topic and difficulty, best matches first.
+     * Topic matching is loose (title and statement count too), and the
+     * difficulty filter is dropped when nothing matches both.
+     */
+    search(topic: string, difficulty?: string): BankProblem[] {
+        const words = topic.toLowerCase().split(/[^a-z0-9+#]+/).filter(w => w.length > 2);
+
+        const scored = this.all()
+            .map(problem => ({ problem, score: topicScore(problem, words) }))
+            .filter(entry => words.length === 0 || entry.score > 0)
+            .sort((a, b) => b.score - a.score);
+
+        const sameDifficulty = scored.filter(entry => entry.problem.difficulty === difficulty);
+        const ranked = sameDifficulty.length > 0 ? sameDifficulty : scored;
+
+        return ranked.map(entry => entry.problem);
+    }
+
+    /**
+     * Picks one problem for the fallback path. Anything matching the
+     * topic wins; otherwise any problem of that difficulty will do.
+     * Skips the problem the user was just given when possible.
+     */
+    pick(topic: string, difficulty: string, excludeQuestion?: string | null): BankProblem | null {
+        let candidates = this.search(topic, difficulty);
+
+        if (candidates.length === 0) {
+            candidates = this.all().filter(problem => problem.difficulty === difficulty);
+        }
+
+        const fresh = candidates.filter(problem => problem.question !== excludeQuestion);
+        const pool = fresh.length > 0 ? fresh : candidates;
+
+        if (pool.length === 0) {
+            return null;
+        }
+
+        // Among equally good matches, vary the problem between sessions
+        const top = pool.slice(0, 3);
+        return top[Math.floor(Math.random() * top.length)];
+    }
+
+    /**
+     * Saves a problem to the user bank, replacing one with the same id.
+     */
+    async add(problem: BankProblem): Promise<void> {
+        this.userProblems = this.userProblems.filter(existing => existing.id !== problem.id);
+        this.userProblems.push({ ...problem, source: "user" });
+
+        await vscode.workspace.fs.createDirectory(this.storageDir);
+        await vscode.workspace.fs.writeFile(
+            this.userFile,
+            Buffer.from(JSON.stringify(this.userProblems, null, 2), "utf8")
+        );
+    }
+}
+
+/**
+ * Converts a bank problem to the shape returned by the AI, so Start
+ * Practice can use either source the same way. solution is empty
+ * when the problem has no solution in the requested language.
+ */
+export function toPracticeQuestion(problem: BankProblem, languageId: string): PracticeQuestion {
+    return {
+        question: problem.question,
+        hints: problem.hints,
+        solution: problem.solutions[languageId] ?? "",
+        tests: problem.tests
+    };
+}
+
+function topicScore(problem: BankProblem, words: string[]): number {
+    const topic = problem.topic.toLowerCase();
+    const text = `${problem.title} ${problem.question}`.toLowerCase();
+
+    let score = 0;
+    for (const word of words) {
+        if (topic.includes(word)) {
+            score += 3;
+        } else if (text.includes(word)) {
+            score += 1;
+        }
+    }
+    return score;
+}
@@ -0,0 +1,106 @@
+import { AiProvider, AiRequest, GenerateOptions } from "../aiProvider";
+
+// Streamed replies are handed out in pieces of this many characters
+const STREAM_CHUNK_SIZE = 40;
+
+/**
+ * Deterministic offline provider.
+ * Returns the same well-formed answer for the same request so the
+ * extension can be driven end-to-end in tests without network access.
+ * Select it with "codeforgex.ai.provider": "fake".
+ */
+export class FakeProvider implements AiProvider {
+
+    readonly id = "fake";
+
+    async generate(request: AiRequest, options: GenerateOptions = {}): Promise<string> {
+        const reply = this.reply(request);
+
+        if (options.onText) {
+            for (let end = STREAM_CHUNK_SIZE; end < reply.length; end += STREAM_CHUNK_SIZE) {
+                // Yield between chunks so a cancel can land mid-stream, as with a real model
+                await new Promise(resolve => setImmediate(resolve));
+                options.signal?.throwIfAborted();
+                options.onText(reply.slice(0, end));
+            }
+            options.onText(reply);
+        }
+
+        options.signal?.throwIfAborted();
+        return reply;
+    }
+
+    private reply(request: AiRequest): string {
+        switch (request.task) {
+            case "practiceQuestion":
+                return JSON.stringify({
+                    question: "Write a function that returns the sum of a list of integers.",
+                    hints: [
+                        "You only need to look at each number once.",
+                        "Keep a running total while looping over the list.",
+                        "total = 0\nfor each n in nums: total = total + n\nreturn total"
+                    ],
+                    solution: fakeSolution(request.language),
+                    tests: [
+                        { input: "1 2 3", expectedOutput: "6", hidden: false },
+                        { input: "5", expectedOutput: "5", hidden: false },
+                        { input: "10 20", expectedOutput: "30", hidden: false },
+                        { input: "-1 -2 3", expectedOutput: "0", hidden: true },
+                        { input: "0", expectedOutput: "0", hidden: true }
+                    ]
+                });
+
+            case "evaluation":
+                return JSON.stringify({
+                    correctness: "Your code produces the expected result.",
+                    edgeCases: "Handles edge cases well",
+                    timeComplexity: "Complexity is appropriate",
+                    codeQuality: "Code is clean and readable",
+                    verdict: "Correct",
+                    suggestions: []
+                });
+
+            case "explainCode":
+            case "explainSelection":
+                return JSON.stringify({
+                    lines: (request.code ?? "")
+                        .split("\n")
+                        .map((line, index) => ({ line: index + 1, explanation: `Runs: ${line.trim()}` }))
+                        .filter(entry => entry.explanation !== "Runs: ")
+                });
+        }
+    }
+}
+
+function fakeSolution(language: string): string {
+    if (language === "python") {
+        return [
+            "import sys",
+            "",
+            "def sum_list(nums):",
+            "    total = 0",
+            "    for n in nums:",
+            "        total += n",
+            "    return total",
+            "",
+            "if __name__ == \"__main__\":",
+            "    data = sys.stdin.read()",
+            "    nums = [int(x) for x in data.split()] if data.strip() else [1, 2, 3]",
+            "    print(sum_list(nums))"
+        ].join("\n");
+    }
+
+    return [
+        "function sumList(nums) {",
+        "    let total = 0;",
+        "    for (const n of nums) {",
+        "        total += n;",
+        "    }",
+        "    return total;",
+        "}",
+        "",
+        "const data = require(\"fs\").readFileSync(0, \"utf8\");",
+        "const nums = data.trim() ? data.trim().split(/\\s+/).map(Number) : [1, 2, 3];",
+        "console.log(sumList(nums));"
+    ].join("\n");
+}
@@ -0,0 +1,51 @@
+import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import { AiProvider, AiRequest, GenerateOptions, AiRequestError } from "../aiProvider";
+
+/**
+ * Google Gemini through the official SDK.
+ * The key comes from GEMINI_API_KEY in .env; a missing key only
+ * fails the request, never extension activation.
+ */
+export class GeminiProvider implements AiProvider {
+
+    readonly id = "gemini";
+    private model: GenerativeModel | null = null;
+
+    constructor(
+        private apiKey: string | undefined,
+        private modelName: string
+    ) {}
+
+    private getModel(): GenerativeModel {
+        if (!this.apiKey) {
+            throw new AiRequestError("auth", "GEMINI_API_KEY not configured. Add it to your .env file.");
+        }
+
+        if (!this.model) {
+            const genAI = new GoogleGenerativeAI(this.apiKey);
+            this.model = genAI.getGenerativeModel({ model: this.modelName });
+        }
+
+        return this.model;
+    }
+
+    async generate(request: AiRequest, options: GenerateOptions = {}): Promise<string> {
+        const content = {
+            contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+            generationConfig: { temperature: request.temperature },
+        };
+
+        if (!options.onText) {
+            const result = await this.getModel().generateContent(content, { signal: options.signal });
+            return result.response.text();
+        }
+
+        const result = await this.getModel().generateContentStream(content, { signal: options.signal });
+        let text = "";
+        for await (const chunk of result.stream) {
+            text += chunk.text();
+            options.onText(text);
+        }
+        return text;
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Splits a streamed HTTP body into lines as they arrive. Both the
+ * OpenAI (server-sent events) and Ollama (one JSON object per line)
+ * streaming formats are line based.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+
+            buffered += decoder.decode(value, { stream: true });
+            const lines = buffered.split("\n");
+            buffered = lines.pop() ?? "";
+
+            for (const line of lines) {
+                yield line.replace(/\r$/, "");
+            }
+        }
+
+        buffered += decoder.decode();
+        if (buffered.length > 0) {
+            yield buffered;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -0,0 +1,55 @@
+import { AiProvider, AiRequest, GenerateOptions, aiErrorFromStatus } from "../aiProvider";
+import { readLines } from "./lineStream";
+
+/**
+ * A local model server exposing the Ollama /api/generate endpoint.
+ * No key is needed — the server is expected on localhost.
+ */
+export class OllamaProvider implements AiProvider {
+
+    readonly id = "ollama";
+
+    constructor(
+        private baseUrl: string,
+        private model: string
+    ) {}
+
+    async generate(request: AiRequest, options: GenerateOptions = {}): Promise<string> {
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/api/generate`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                model: this.model,
+                prompt: request.prompt,
+                stream: Boolean(options.onText),
+                options: { temperature: request.temperature }
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            throw aiErrorFromStatus(response.status, `Ollama request failed (${response.status}): ${await response.text()}`);
+        }
+
+        if (!options.onText || !response.body) {
+            const data: any = await response.json();
+            return data?.response ?? "";
+        }
+
+        // One JSON object per line, each carrying the next piece of "response"
+        let text = "";
+        for await (const line of readLines(response.body)) {
+            if (!line.trim()) {
+                continue;
+            }
+
+            const chunk: any = JSON.parse(line);
+            if (chunk?.error) {
+                throw new Error(`Ollama request failed: ${chunk.error}`);
+            }
+            text += chunk?.response ?? "";
+            options.onText(text);
+        }
+        return text;
+    }
+}
@@ -0,0 +1,67 @@
+import { AiProvider, AiRequest, GenerateOptions, aiErrorFromStatus } from "../aiProvider";
+import { readLines } from "./lineStream";
+
+/**
+ * Any server speaking the OpenAI Chat Completions API
+ * (OpenAI itself, Azure-style proxies, LM Studio, vLLM, ...).
+ * The key is optional so local servers work without one.
+ */
+export class OpenAiProvider implements AiProvider {
+
+    readonly id = "openai";
+
+    constructor(
+        private baseUrl: string,
+        private model: string,
+        private apiKey: string | undefined
+    ) {}
+
+    async generate(request: AiRequest, options: GenerateOptions = {}): Promise<string> {
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json"
+        };
+
+        if (this.apiKey) {
+            headers["Authorization"] = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                temperature: request.temperature,
+                messages: [{ role: "user", content: request.prompt }],
+                stream: Boolean(options.onText)
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            throw aiErrorFromStatus(
+                response.status,
+                `OpenAI-compatible request failed (${response.status}): ${await response.text()}`,
+                response.headers.get("retry-after")
+            );
+        }
+
+        if (!options.onText || !response.body) {
+            const data: any = await response.json();
+            return data?.choices?.[0]?.message?.content ?? "";
+        }
+
+        // Server-sent events: "data: {...}" per chunk, then "data: [DONE]"
+        let text = "";
+        for await (const line of readLines(response.body)) {
+            const payload = line.startsWith("data:") ? line.slice(5).trim() : "";
+            if (!payload || payload === "[DONE]") {
+                continue;
+            }
+
+            const chunk: any = JSON.parse(payload);
+            text += chunk?.choices?.[0]?.delta?.content ?? "";
+            options.onText(text);
+        }
+        return text;
+    }
+}
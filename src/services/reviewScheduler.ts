@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { PracticeQuestion, EvaluationVerdict } from './aiSchemas';
+
+// globalState key — reviews follow the user across workspaces
+const SCHEDULE_KEY = 'codeforgex.reviewSchedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 constants: starting ease, lowest ease, first two intervals in days
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const FIRST_INTERVAL_DAYS = 1;
+const SECOND_INTERVAL_DAYS = 6;
+
+// Time a session of each difficulty is expected to take, in seconds
+const EXPECTED_SECONDS: Record<string, number> = {
+    Easy: 15 * 60,
+    Medium: 30 * 60,
+    Hard: 45 * 60
+};
+
+// Hint ladder depth at which a solve no longer counts as recalled: the
+// pseudocode level alone brings the grade below 3
+const PSEUDOCODE_HINT_LEVEL = 3;
+
+// Problems beyond this are dropped, least recently practised first
+const MAX_PROBLEMS = 500;
+
+/**
+ * Something to review: a single problem (which can be re-opened as it
+ * was) or a whole topic (reviewed with a new problem).
+ */
+export interface ReviewItem {
+    key: string;                    // "problem:<hash>" or "topic:<label>"
+    kind: 'problem' | 'topic';
+    title: string;                  // first line of the question, or the topic label
+    topics: string[];
+    difficulty: string | null;
+    language: string;
+    problem: PracticeQuestion | null;   // problems only — what is needed to re-open it
+
+    // SM-2 state
+    easeFactor: number;
+    repetitions: number;            // successful reviews in a row
+    intervalDays: number;
+    dueAt: number;                  // epoch ms, local midnight of the due day
+    lastQuality: number;            // 0-5
+    lastPractisedAt: number;        // epoch ms
+}
+
+/**
+ * How a completed practice session went.
+ */
+export interface PracticeOutcome {
+    problem: PracticeQuestion | null;   // null when the question text is unknown
+    topics: string[];
+    difficulty: string | null;
+    language: string;
+    seconds: number;
+    hintLevel: number;                  // deepest hint level revealed
+    solutionViewed: boolean;
+    verdict: EvaluationVerdict | null;  // judge result, else last evaluation, if any
+    reviewOf: string | null;            // key of the item this session reviewed, if any
+}
+
+/**
+ * SM-2 grade (0-5) for a session. Viewing the solution counts as not
+ * recalling the problem (1). Otherwise a clean, quick solve is a 5 and
+ * hints, a weak evaluation and running over the expected time for the
+ * difficulty each take points off, down to 2 — which still resets the
+ * interval, because a heavily assisted solve is not yet learned. Reading
+ * the pseudocode hint is such a solve on its own.
+ */
+export function sessionQuality(outcome: PracticeOutcome): number {
+    if (outcome.solutionViewed) {
+        return 1;
+    }
+
+    // One point per hint level, so reaching the pseudocode resets the interval
+    let penalty = Math.min(PSEUDOCODE_HINT_LEVEL, outcome.hintLevel);
+
+    if (outcome.verdict === 'Partially Correct') {
+        penalty += 1;
+    } else if (outcome.verdict === 'Needs Improvement') {
+        penalty += 2;
+    }
+
+    const expected = expectedSeconds(outcome.difficulty);
+    if (outcome.seconds > 2 * expected) {
+        penalty += 2;
+    } else if (outcome.seconds > expected) {
+        penalty += 1;
+    }
+
+    return Math.max(2, 5 - penalty);
+}
+
+/**
+ * How long a problem of this difficulty is expected to take; unknown
+ * difficulties count as Medium.
+ */
+export function expectedSeconds(difficulty: string | null): number {
+    return EXPECTED_SECONDS[difficulty ?? ''] ?? EXPECTED_SECONDS.Medium;
+}
+
+/**
+ * One SM-2 step: the next ease, repetition count and interval after a
+ * review graded `quality`.
+ */
+export function nextInterval(
+    item: Pick<ReviewItem, 'easeFactor' | 'repetitions' | 'intervalDays'>,
+    quality: number
+): Pick<ReviewItem, 'easeFactor' | 'repetitions' | 'intervalDays'> {
+    const easeFactor = Math.max(MIN_EASE, item.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+    if (quality < 3) {
+        return { easeFactor, repetitions: 0, intervalDays: FIRST_INTERVAL_DAYS };
+    }
+
+    const repetitions = item.repetitions + 1;
+    const intervalDays = repetitions === 1 ? FIRST_INTERVAL_DAYS
+        : repetitions === 2 ? SECOND_INTERVAL_DAYS
+        : Math.round(item.intervalDays * item.easeFactor);
+
+    return { easeFactor, repetitions, intervalDays };
+}
+
+/**
+ * Stable key for a problem: the same question text always maps to the
+ * same item, so re-solving it continues its schedule.
+ */
+export function problemKey(question: string): string {
+    const normalized = question.replace(/\s+/g, ' ').trim().toLowerCase();
+    return `problem:${createHash('sha256').update(normalized).digest('hex').slice(0, 16)}`;
+}
+
+export function topicKey(topic: string): string {
+    return `topic:${topic}`;
+}
+
+/**
+ * Local SM-2 schedule of problems and topics to review, built from
+ * completed practice sessions.
+ */
+export class ReviewScheduler {
+
+    constructor(private state: vscode.Memento) {}
+
+    all(): ReviewItem[] {
+        return Object.values(this.items());
+    }
+
+    get(key: string): ReviewItem | undefined {
+        return this.items()[key];
+    }
+
+    /**
+     * Items due by `now`, most overdue first. A topic is left out while
+     * a due problem covers it: reviewing the problem reschedules its
+     * topics too, so listing both would show one review two or three times.
+     */
+    due(now: number = Date.now()): ReviewItem[] {
+        const due = this.all().filter(item => item.dueAt <= now);
+        const covered = new Set(due
+            .filter(item => item.kind === 'problem')
+            .flatMap(item => item.topics.map(topicKey)));
+
+        return due
+            .filter(item => !covered.has(item.key))
+            .sort((a, b) => a.dueAt - b.dueAt);
+    }
+
+    /**
+     * Grades a completed session and reschedules its problem and each
+     * of its topics. A session that reviewed a problem (re-opened, or
+     * a variant of it) continues that problem's schedule.
+     */
+    async record(outcome: PracticeOutcome, now: number = Date.now()): Promise<void> {
+        const quality = sessionQuality(outcome);
+        const items = this.items();
+
+        const keys: Array<Pick<ReviewItem, 'key' | 'title' | 'topics' | 'problem'>> = outcome.topics
+            .map(topic => ({ key: topicKey(topic), title: topic, topics: [topic], problem: null }));
+        const reviewed = outcome.reviewOf ? items[outcome.reviewOf] : undefined;
+        if (reviewed?.kind === 'problem') {
+            keys.push({ key: reviewed.key, title: reviewed.title, topics: reviewed.topics, problem: reviewed.problem });
+        } else if (outcome.problem) {
+            keys.push({
+                key: problemKey(outcome.problem.question),
+                title: problemTitle(outcome.problem.question),
+                topics: outcome.topics,
+                problem: outcome.problem
+            });
+        }
+
+        for (const { key, title, topics, problem } of keys) {
+            const previous = items[key];
+            const step = nextInterval(
+                previous ?? { easeFactor: INITIAL_EASE, repetitions: 0, intervalDays: 0 },
+                quality
+            );
+
+            items[key] = {
+                key,
+                kind: problem ? 'problem' : 'topic',
+                title,
+                topics,
+                difficulty: outcome.difficulty ?? previous?.difficulty ?? null,
+                language: outcome.language,
+                problem,
+                ...step,
+                dueAt: startOfDay(now + step.intervalDays * DAY_MS),
+                lastQuality: quality,
+                lastPractisedAt: now
+            };
+        }
+
+        await this.save(items);
+    }
+
+    /**
+     * Moves an item's due date to `days` from today. Postponing a problem
+     * also moves its topics that would come due before it, so they do not
+     * turn up on their own in its place.
+     */
+    async postpone(key: string, days: number, now: number = Date.now()): Promise<void> {
+        const items = this.items();
+        const item = items[key];
+        if (!item) {
+            return;
+        }
+
+        const dueAt = startOfDay(now + days * DAY_MS);
+        const topics = item.kind === 'problem' ? item.topics.map(topicKey) : [];
+        for (const moved of [key, ...topics]) {
+            if (items[moved] && (moved === key || items[moved].dueAt < dueAt)) {
+                items[moved] = { ...items[moved], dueAt };
+            }
+        }
+        await this.save(items);
+    }
+
+    private items(): Record<string, ReviewItem> {
+        return { ...this.state.get<Record<string, ReviewItem>>(SCHEDULE_KEY, {}) };
+    }
+
+    private async save(items: Record<string, ReviewItem>): Promise<void> {
+        const problems = Object.values(items)
+            .filter(item => item.kind === 'problem')
+            .sort((a, b) => b.lastPractisedAt - a.lastPractisedAt);
+
+        for (const dropped of problems.slice(MAX_PROBLEMS)) {
+            delete items[dropped.key];
+        }
+
+        await this.state.update(SCHEDULE_KEY, items);
+    }
+}
+
+function problemTitle(question: string): string {
+    const firstLine = question.trim().split('\n')[0].trim();
+    return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+}
+
+// Local midnight, so a review is due from the start of its day
+function startOfDay(time: number): number {
+    const date = new Date(time);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
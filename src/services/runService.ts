@@ -1,15 +1,170 @@
 import * as vscode from "vscode";
-import { getLanguageConfig } from "./languageConfig";
+import { spawn, ChildProcess } from "child_process";
+import { getLanguageConfig, supportedLanguageIds, LanguageConfig } from "./languageConfig";
+import {
+    RunVerdict,
+    getSandboxLimits,
+    createSandboxDir,
+    removeSandboxDir,
+    runSandboxed,
+    describeVerdict
+} from "./sandbox";
+
+// "terminal": send the command to the CodeForgeX terminal (interactive, no result)
+// "captured": spawn compile/run as child processes and report their real outcome
+export type RunMode = "terminal" | "captured";
+
+// Upper bound for compiling in captured mode; the program itself runs
+// under the sandbox limits (see sandbox.ts)
+const COMPILE_TIMEOUT_MS = 60000;
 
 export interface RunResult {
     success: boolean;
     output: string;
     error?: string;
+
+    // Captured mode only
+    stderr?: string;
+    exitCode?: number | null;
+    durationMs?: number;        // wall time of compile + run
+    verdict?: RunVerdict;
+}
+
+export interface ProcessResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;    // null when killed by a signal
+    signal: NodeJS.Signals | null;
+    timedOut: boolean;
+    outputLimitExceeded: boolean;
+    durationMs: number;
+}
+
+export interface ProcessOptions {
+    cwd: string;
+    input?: string;             // written to stdin, then stdin is closed
+    timeoutMs: number;
+    maxOutputBytes?: number;    // stdout + stderr; the process is killed beyond it
+}
+
+/**
+ * Spawns one process (no shell) and captures its output.
+ * Never rejects for a failing program — a missing executable is
+ * reported through stderr and a null exit code instead.
+ *
+ * The process gets its own process group, so a run command that forks
+ * (go run, npx ts-node, ...) is stopped as a whole at the time or
+ * output limit, and the promise settles even if a child it left behind
+ * still holds stdout or stderr.
+ */
+export function runProcess(
+    command: string,
+    args: string[],
+    options: ProcessOptions
+): Promise<ProcessResult> {
+    return new Promise(resolve => {
+        const startedAt = Date.now();
+        let stdout = "";
+        let stderr = "";
+        let outputBytes = 0;
+        let timedOut = false;
+        let outputLimitExceeded = false;
+        let settled = false;
+
+        // Windows has no process groups; detached there opens a new console
+        const child = spawn(command, args, { cwd: options.cwd, detached: process.platform !== "win32" });
+
+        const finish = (exitCode: number | null, signal: NodeJS.Signals | null) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            resolve({
+                stdout,
+                stderr,
+                exitCode,
+                signal,
+                timedOut,
+                outputLimitExceeded,
+                durationMs: Date.now() - startedAt
+            });
+        };
+
+        // Kills the process and everything it started, then stops
+        // waiting for output — "close" may never come if a descendant
+        // escaped the group while holding a pipe
+        const stop = () => {
+            killProcessGroup(child);
+            child.stdout.destroy();
+            child.stderr.destroy();
+            if (child.exitCode !== null || child.signalCode !== null) {
+                finish(child.exitCode, child.signalCode);
+            }
+        };
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            stop();
+        }, options.timeoutMs);
+
+        // Stops a program that prints without end before it fills memory
+        const countOutput = (chunk: Buffer) => {
+            outputBytes += chunk.length;
+            if (options.maxOutputBytes !== undefined && outputBytes > options.maxOutputBytes && !outputLimitExceeded) {
+                outputLimitExceeded = true;
+                stop();
+            }
+        };
+
+        child.stdout.on("data", chunk => {
+            countOutput(chunk);
+            if (!outputLimitExceeded) {
+                stdout += chunk.toString();
+            }
+        });
+        child.stderr.on("data", chunk => {
+            countOutput(chunk);
+            if (!outputLimitExceeded) {
+                stderr += chunk.toString();
+            }
+        });
+
+        child.on("error", err => {
+            stderr += err.message;
+            finish(null, null);
+        });
+
+        child.on("close", (code, signal) => finish(code, signal));
+        child.on("exit", (code, signal) => {
+            if (timedOut || outputLimitExceeded) {
+                finish(code, signal);
+            }
+        });
+
+        // Programs that never read stdin close the pipe early — ignore EPIPE
+        child.stdin.on("error", () => { /* ignored */ });
+        child.stdin.end(options.input ?? "");
+    });
+}
+
+function killProcessGroup(child: ChildProcess) {
+    try {
+        if (process.platform !== "win32" && child.pid !== undefined) {
+            process.kill(-child.pid, "SIGKILL");
+        } else {
+            child.kill("SIGKILL");
+        }
+    } catch {
+        // Already gone
+    }
 }
 
 /**
- * Runs the currently active file in a VS Code terminal,
- * exactly like the Code Runner extension does.
+ * Runs the currently active file.
+ * In "terminal" mode (default) this works exactly like the Code Runner
+ * extension does; in "captured" mode the real outcome is returned.
+ * The mode comes from the "codeforgex.run.mode" setting.
  */
 export async function runActiveFile(): Promise<RunResult> {
 
@@ -35,10 +190,22 @@ export async function runActiveFile(): Promise<RunResult> {
         return {
             success: false,
             output: "",
-            error: `Language "${languageId}" is not supported. Supported: Python, JavaScript, TypeScript, Java, C, C++, Go, Ruby.`
+            error: `Language "${languageId}" is not supported. Supported: ${supportedLanguageIds().join(", ")}. Add more with the "codeforgex.languages" setting.`
         };
     }
 
+    const mode = vscode.workspace
+        .getConfiguration("codeforgex.run")
+        .get<RunMode>("mode", "terminal");
+
+    if (mode === "captured") {
+        return runCaptured(languageId, filePath);
+    }
+
+    return runInTerminal(config);
+}
+
+function runInTerminal(config: LanguageConfig): RunResult {
     try {
         // Build the full shell command string to send to terminal
         let terminalCommand = "";
@@ -86,4 +253,73 @@ export async function runActiveFile(): Promise<RunResult> {
             error: err.message || "Execution failed."
         };
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Runs compile (if any) and run steps as child processes on a copy of
+ * the file in a temporary directory, the program itself inside the
+ * sandbox, and captures stdout, stderr, exit code, wall time and verdict.
+ * success is true only when the program exited cleanly with code 0.
+ */
+async function runCaptured(languageId: string, sourcePath: string): Promise<RunResult> {
+    const limits = getSandboxLimits();
+    let sandboxDir: string | undefined;
+
+    try {
+        const sandbox = await createSandboxDir(sourcePath);
+        sandboxDir = sandbox.dir;
+
+        // Same commands as the terminal, but pointing at the copy
+        const config = getLanguageConfig(languageId, sandbox.filePath)!;
+        let elapsedMs = 0;
+
+        if (config.compile) {
+            const compiled = await runProcess(config.compile.command, config.compile.args, {
+                cwd: sandbox.dir,
+                timeoutMs: COMPILE_TIMEOUT_MS
+            });
+            elapsedMs += compiled.durationMs;
+
+            if (compiled.timedOut || compiled.exitCode !== 0) {
+                return {
+                    success: false,
+                    output: compiled.stdout,
+                    stderr: compiled.stderr,
+                    exitCode: compiled.exitCode,
+                    durationMs: elapsedMs,
+                    verdict: "CE",
+                    error: compiled.timedOut
+                        ? "Compilation timed out."
+                        : `Compilation failed (exit code ${compiled.exitCode}).`
+                };
+            }
+        }
+
+        const run = await runSandboxed(config.run.command, config.run.args, {
+            cwd: sandbox.dir,
+            limits
+        });
+        elapsedMs += run.durationMs;
+
+        return {
+            success: run.verdict === "OK",
+            output: run.stdout,
+            stderr: run.stderr,
+            exitCode: run.exitCode,
+            durationMs: elapsedMs,
+            verdict: run.verdict,
+            error: run.verdict === "OK" ? undefined : describeVerdict(run, limits)
+        };
+    } catch (err: any) {
+        // The temporary directory could not be created (disk full, permissions)
+        return {
+            success: false,
+            output: "",
+            error: `Could not prepare the run: ${err.message || err}`
+        };
+    } finally {
+        if (sandboxDir) {
+            await removeSandboxDir(sandboxDir);
+        }
+    }
+}
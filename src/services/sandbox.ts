@@ -0,0 +1,178 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { runProcess, ProcessResult } from "./runService";
+
+// How a sandboxed run ended, in online-judge terms
+//   OK   exited with code 0          CE   compilation error
+//   RE   runtime error               TLE  CPU or wall time limit
+//   MLE  memory limit                OLE  output size limit
+export type RunVerdict = "OK" | "CE" | "RE" | "TLE" | "MLE" | "OLE";
+
+export interface SandboxLimits {
+    cpuTimeSeconds: number;
+    wallTimeSeconds: number;
+    memoryMb: number;
+    maxOutputKb: number;
+    disableNetwork: boolean;
+}
+
+export interface SandboxResult extends ProcessResult {
+    verdict: RunVerdict;
+}
+
+// What allocation failures look like in the languages we run
+const OUT_OF_MEMORY = /MemoryError|out of memory|bad_alloc|OutOfMemoryError|Cannot allocate memory|failed to map segment/i;
+
+interface SandboxSupport {
+    prlimit: boolean;
+    unshare: boolean;
+}
+
+// Probed once per window — both tools are optional
+let support: Promise<SandboxSupport> | undefined;
+
+/**
+ * Limits from the "codeforgex.sandbox.*" settings.
+ */
+export function getSandboxLimits(): SandboxLimits {
+    const config = vscode.workspace.getConfiguration("codeforgex.sandbox");
+    return {
+        cpuTimeSeconds: config.get<number>("cpuTimeSeconds", 5),
+        wallTimeSeconds: config.get<number>("wallTimeSeconds", 10),
+        memoryMb: config.get<number>("memoryMb", 256),
+        maxOutputKb: config.get<number>("maxOutputKb", 1024),
+        disableNetwork: config.get<boolean>("disableNetwork", true)
+    };
+}
+
+/**
+ * Copies the source file into a fresh temporary directory, so compiler
+ * output and anything the program writes stay out of the user's folder.
+ * Returns the directory and the path of the copy.
+ */
+export async function createSandboxDir(sourcePath: string): Promise<{ dir: string; filePath: string }> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforgex-"));
+    const filePath = path.join(dir, path.basename(sourcePath));
+    await fs.copyFile(sourcePath, filePath);
+    return { dir, filePath };
+}
+
+export async function removeSandboxDir(dir: string): Promise<void> {
+    await fs.rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * Runs one program under the given limits.
+ *
+ * On Linux, CPU time, memory and written-file size are enforced with
+ * prlimit and the network is removed with an unshared (empty) network
+ * namespace. Wall time and output size are enforced here on every
+ * platform. Tools that are missing are skipped with a warning rather
+ * than refusing to run.
+ */
+export async function runSandboxed(
+    command: string,
+    args: string[],
+    options: { cwd: string; input?: string; limits: SandboxLimits }
+): Promise<SandboxResult> {
+    const { limits } = options;
+    const wrapped = [command, ...args];
+
+    if (process.platform === "linux") {
+        const available = await detectSupport();
+
+        if (available.prlimit) {
+            // --data rather than --as: runtimes such as V8 and the JVM reserve
+            // huge address ranges up front and refuse to start under --as
+            wrapped.unshift(
+                "prlimit",
+                `--cpu=${limits.cpuTimeSeconds}:${limits.cpuTimeSeconds + 1}`,
+                `--data=${limits.memoryMb * 1024 * 1024}`,
+                `--fsize=${limits.maxOutputKb * 1024}`,
+                "--"
+            );
+        }
+
+        if (limits.disableNetwork && available.unshare) {
+            wrapped.unshift("unshare", "--user", "--map-root-user", "--net");
+        }
+    }
+
+    const result = await runProcess(wrapped[0], wrapped.slice(1), {
+        cwd: options.cwd,
+        input: options.input,
+        timeoutMs: limits.wallTimeSeconds * 1000,
+        maxOutputBytes: limits.maxOutputKb * 1024
+    });
+
+    return { ...result, verdict: classifyRun(result) };
+}
+
+/**
+ * Maps how a process ended to a verdict. Limits are checked first so a
+ * program stopped at a limit is not reported as an ordinary crash.
+ */
+export function classifyRun(result: ProcessResult): RunVerdict {
+    if (result.timedOut || result.signal === "SIGXCPU") {
+        return "TLE";
+    }
+    if (result.outputLimitExceeded || result.signal === "SIGXFSZ") {
+        return "OLE";
+    }
+    if (result.exitCode === 0) {
+        return "OK";
+    }
+    if (OUT_OF_MEMORY.test(result.stderr)) {
+        return "MLE";
+    }
+    return "RE";
+}
+
+/**
+ * One-line explanation of a verdict for messages and reports.
+ */
+export function describeVerdict(result: SandboxResult, limits: SandboxLimits): string {
+    switch (result.verdict) {
+        case "OK":
+            return "Finished successfully.";
+        case "CE":
+            return "Compilation failed.";
+        case "TLE":
+            return result.timedOut
+                ? `Time limit exceeded: still running after ${limits.wallTimeSeconds}s.`
+                : `Time limit exceeded: used more than ${limits.cpuTimeSeconds}s of CPU time.`;
+        case "MLE":
+            return `Memory limit exceeded (${limits.memoryMb} MB).`;
+        case "OLE":
+            return `Output limit exceeded (${limits.maxOutputKb} KB).`;
+        case "RE":
+            if (result.signal) {
+                return `Runtime error: killed by ${result.signal}.`;
+            }
+            return result.exitCode === null
+                ? "Runtime error: the program could not be started."
+                : `Runtime error: exited with code ${result.exitCode}.`;
+    }
+}
+
+function detectSupport(): Promise<SandboxSupport> {
+    if (!support) {
+        support = (async () => {
+            const cwd = os.tmpdir();
+            const prlimit = await runProcess("prlimit", ["--version"], { cwd, timeoutMs: 5000 });
+            const unshare = await runProcess("unshare", ["--user", "--map-root-user", "--net", "true"], { cwd, timeoutMs: 5000 });
+
+            const detected = { prlimit: prlimit.exitCode === 0, unshare: unshare.exitCode === 0 };
+            if (!detected.prlimit) {
+                console.warn("CodeForgeX sandbox: prlimit not found — CPU and memory limits are not enforced.");
+            }
+            if (!detected.unshare) {
+                console.warn("CodeForgeX sandbox: unprivileged network namespaces unavailable — network stays enabled.");
+            }
+            return detected;
+        })();
+    }
+    return support;
+}
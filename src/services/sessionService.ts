@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { TestCase, CodeEvaluation, LineExplanation } from './aiSchemas';
+import { TimerSnapshot } from './timerService';
+
+// workspaceState key — one entry per practice document
+const SESSIONS_KEY = 'codeforgex.sessions';
+
+/**
+ * Where a session's question, hints, solution and evaluation are shown:
+ * the CodeForgeX side panel, or comments written into the source file.
+ */
+export type DisplayMode = 'panel' | 'inFile';
+
+/**
+ * Everything CodeForgeX knows about one practice file.
+ * Keyed by document URI so several practice files can be open at
+ * once, and persisted in workspaceState so a reload restores it.
+ */
+export interface PracticeSession {
+    uri: string;
+
+    // Problem being practised (question text is null for manually pasted questions)
+    question: string | null;
+    topics: string[];           // e.g. ["Graphs / BFS"]; several for combined problems
+    difficulty: string | null;
+
+    // AI-generated content
+    hints: string[];            // hint ladder, gentlest first
+    solution: string | null;
+    explanations: LineExplanation[];  // per-line notes on the solution
+    tests: TestCase[];
+
+    // Last evaluation, rendered by the problem panel
+    evaluation: CodeEvaluation | null;
+
+    // true when the question came from the user's own comments
+    isUserWrittenQuestion: boolean;
+
+    // Review item (see reviewScheduler.ts) this session reviews, if it
+    // was started from Review Due
+    reviewOf: string | null;
+
+    // Fixed when the question is generated, so changing the setting
+    // later never loses track of content already in the file
+    displayMode: DisplayMode;
+
+    // Mirrors of the codeforgex.* context keys
+    hasQuestion: boolean;
+    hintVisible: boolean;
+    solutionVisible: boolean;
+    hasExplanation: boolean;
+    evaluationVisible: boolean;
+
+    // Practice tracking sent with PracticeData
+    hintsUsed: number;
+    hintLevel: number;          // deepest hint level revealed, 0 = none
+    solutionViewed: boolean;
+    passRate: number | null;
+
+    // Timer — saved clock state, whether real typing started it, and
+    // whether it should tick again when the session becomes active
+    timer: TimerSnapshot;
+    timerStarted: boolean;
+    timerRunning: boolean;
+
+    // Countdown mode — time limit for this problem (null = none) and
+    // whether the expiry action already fired
+    timeLimitSeconds: number | null;
+    budgetExpired: boolean;
+
+    // Auto-pause — time the user was away while practising this problem,
+    // and whether the timer is paused right now because they are away
+    idleSeconds: number;
+    autoPaused: boolean;
+}
+
+export function createSession(uri: vscode.Uri): PracticeSession {
+    return {
+        uri: uri.toString(),
+        question: null,
+        topics: [],
+        difficulty: null,
+        hints: [],
+        solution: null,
+        explanations: [],
+        tests: [],
+        evaluation: null,
+        isUserWrittenQuestion: false,
+        reviewOf: null,
+        // Sessions saved before the panel existed kept everything in the file
+        displayMode: 'inFile',
+        hasQuestion: false,
+        hintVisible: false,
+        solutionVisible: false,
+        hasExplanation: false,
+        evaluationVisible: false,
+        hintsUsed: 0,
+        hintLevel: 0,
+        solutionViewed: false,
+        passRate: null,
+        timer: { elapsedMs: 0, running: false, savedAt: 0 },
+        timerStarted: false,
+        timerRunning: false,
+        timeLimitSeconds: null,
+        budgetExpired: false,
+        idleSeconds: 0,
+        autoPaused: false
+    };
+}
+
+/**
+ * In-memory map of sessions backed by workspaceState.
+ * Only sessions that actually hold a question are written to disk,
+ * so opening ordinary files never grows the stored state.
+ */
+export class SessionStore {
+
+    private sessions = new Map<string, PracticeSession>();
+
+    constructor(private state: vscode.Memento) {
+        const saved = state.get<Record<string, PracticeSession>>(SESSIONS_KEY, {});
+
+        for (const [uri, stored] of Object.entries(saved)) {
+            // Spread over defaults so sessions saved by older versions
+            // pick up fields added since. Those stored a single topic
+            // and the timer as whole seconds.
+            const { topic, timerSeconds, ...session } = stored as PracticeSession & {
+                topic?: string | null;
+                timerSeconds?: number;
+            };
+            this.sessions.set(uri, {
+                ...createSession(vscode.Uri.parse(uri)),
+                ...session,
+                topics: session.topics ?? (topic ? [topic] : []),
+                timer: session.timer ?? { elapsedMs: (timerSeconds ?? 0) * 1000, running: false, savedAt: 0 }
+            });
+        }
+    }
+
+    getOrCreate(uri: vscode.Uri): PracticeSession {
+        const key = uri.toString();
+        let session = this.sessions.get(key);
+
+        if (!session) {
+            session = createSession(uri);
+            this.sessions.set(key, session);
+        }
+
+        return session;
+    }
+
+    /**
+     * Writes all question-holding sessions to workspaceState.
+     */
+    async save(): Promise<void> {
+        const toSave: Record<string, PracticeSession> = {};
+
+        for (const [uri, session] of this.sessions) {
+            if (session.hasQuestion) {
+                toSave[uri] = session;
+            }
+        }
+
+        await this.state.update(SESSIONS_KEY, toSave);
+    }
+}
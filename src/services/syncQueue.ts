@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { PracticeData } from './apiService';
+
+// globalState key — survives window reloads and workspace switches
+const QUEUE_KEY = 'codeforgex.pendingPracticeData';
+
+// Retry delays grow 30s, 1m, 2m, 4m ... capped at 6 hours
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Oldest entries are dropped beyond this; the local practice history
+// still has every session
+const MAX_PENDING = 500;
+
+// Client errors that can succeed on a later try: expired login, request
+// timeout and rate limiting
+const RETRYABLE_CLIENT_STATUSES = [401, 408, 429];
+
+export interface PendingUpload {
+    data: PracticeData;
+    attempts: number;
+    nextAttemptAt: number;      // epoch ms
+}
+
+/**
+ * Practice data that could not be uploaded yet.
+ * Entries are keyed by PracticeData.sessionId, so a session that is
+ * queued twice is only stored (and sent) once.
+ */
+export class SyncQueue {
+
+    constructor(private state: vscode.Memento) {}
+
+    pending(): PendingUpload[] {
+        return this.state.get<PendingUpload[]>(QUEUE_KEY, []);
+    }
+
+    count(): number {
+        return this.pending().length;
+    }
+
+    async enqueue(data: PracticeData): Promise<void> {
+        const entries = this.pending().filter(entry => entry.data.sessionId !== data.sessionId);
+        entries.push({ data, attempts: 0, nextAttemptAt: Date.now() });
+        await this.state.update(QUEUE_KEY, entries.slice(-MAX_PENDING));
+    }
+
+    async remove(sessionId: string): Promise<void> {
+        await this.state.update(
+            QUEUE_KEY,
+            this.pending().filter(entry => entry.data.sessionId !== sessionId)
+        );
+    }
+
+    /**
+     * Records a failed attempt and pushes the entry's next try back.
+     */
+    async markFailed(sessionId: string): Promise<void> {
+        const entries = this.pending().map(entry => {
+            if (entry.data.sessionId !== sessionId) {
+                return entry;
+            }
+            const attempts = entry.attempts + 1;
+            return { ...entry, attempts, nextAttemptAt: Date.now() + backoffDelay(attempts) };
+        });
+        await this.state.update(QUEUE_KEY, entries);
+    }
+
+    /**
+     * Entries whose backoff has elapsed (all entries when force is set).
+     */
+    due(force: boolean): PendingUpload[] {
+        const now = Date.now();
+        return this.pending().filter(entry => force || entry.nextAttemptAt <= now);
+    }
+
+    /**
+     * Milliseconds until the earliest entry becomes due, or null if empty.
+     */
+    msUntilNextDue(): number | null {
+        const entries = this.pending();
+        if (entries.length === 0) {
+            return null;
+        }
+        const earliest = Math.min(...entries.map(entry => entry.nextAttemptAt));
+        return Math.max(0, earliest - Date.now());
+    }
+}
+
+/**
+ * Whether the backend refused the payload for good (400, 404, 409,
+ * 422, ...). Sending it again would only fail the same way, so it is
+ * not queued.
+ */
+export function isPermanentFailure(status: number): boolean {
+    return status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(status);
+}
+
+export function backoffDelay(attempts: number): number {
+    return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
@@ -1,77 +1,221 @@
+import { performance } from "perf_hooks";
+
+// Share of the time limit left at which the countdown turns low / critical
+const LOW_FRACTION = 0.25;
+const CRITICAL_FRACTION = 0.1;
+
+// How often the display is refreshed; it only changes once per second,
+// but checking more often keeps it from skipping a second under load
+const REFRESH_MS = 250;
+
+// A timer that was running when the window closed keeps counting the
+// time until the reload, if the reload came within this long. Longer
+// gaps (a crash, the machine shut down) are not practice time.
+const RELOAD_GRACE_MS = 2 * 60 * 1000;
+
+/**
+ * How much of the time limit is left: 'none' without a limit, then
+ * 'plenty', 'low' and 'critical' as it runs down, 'expired' once over.
+ */
+export type BudgetLevel = 'none' | 'plenty' | 'low' | 'critical' | 'expired';
+
+/**
+ * Timer state as saved in the session, so elapsed time survives
+ * switching files, reloading the window and crashes.
+ */
+export interface TimerSnapshot {
+    elapsedMs: number;
+    running: boolean;       // counting when saved
+    savedAt: number;        // epoch ms (wall clock) of the save
+}
+
+/**
+ * Practice stopwatch. Elapsed time is measured from start and pause
+ * timestamps on a monotonic clock rather than by counting interval
+ * ticks, so it does not drift when the extension host is busy and is
+ * not affected by system clock changes. The interval only refreshes
+ * the display.
+ */
 export class PracticeTimer {
 
     private interval: NodeJS.Timeout | null = null;
-    private seconds: number = 0;
-    private isRunning: boolean = false;
+    private accumulatedMs: number = 0;              // counted before the current run
+    private runningSince: number | null = null;     // monotonic ms the current run started
+    private lastShown: string = "";
+    private limitSeconds: number | null = null;
     private onTick: (formatted: string) => void;
 
-    constructor(onTick: (formatted: string) => void) {
+    constructor(
+        onTick: (formatted: string) => void,
+        private monotonic: () => number = () => performance.now(),
+        private wall: () => number = Date.now
+    ) {
         this.onTick = onTick;
     }
 
-    private formatTime(): string {
-        const mins = Math.floor(this.seconds / 60);
-        const secs = this.seconds % 60;
-
-        const mm = mins < 10 ? `0${mins}` : `${mins}`;
-        const ss = secs < 10 ? `0${secs}` : `${secs}`;
-
-        return `${mm}:${ss}`;
+    /**
+     * Elapsed time, or with a time limit the time left — "+MM:SS" once
+     * the limit has passed. Hours are shown as "H:MM:SS".
+     */
+    formatTime(): string {
+        const remaining = this.getRemainingSeconds();
+        if (remaining === null) {
+            return formatSeconds(this.getSeconds());
+        }
+        return remaining > 0 ? formatSeconds(remaining) : `+${formatSeconds(-remaining)}`;
     }
 
     start() {
-        if (this.isRunning) return;
-
-        this.isRunning = true;
+        if (this.isActive()) {
+            return;
+        }
 
-        this.interval = setInterval(() => {
-            this.seconds++;
-            this.onTick(this.formatTime());
-        }, 1000);
+        this.runningSince = this.monotonic();
+        this.interval = setInterval(() => this.refresh(), REFRESH_MS);
     }
 
     pause() {
-        if (!this.isRunning || !this.interval) return;
+        if (!this.isActive()) {
+            return;
+        }
 
-        clearInterval(this.interval);
-        this.interval = null;
-        this.isRunning = false;
+        this.accumulatedMs = this.elapsedMs();
+        this.stopCounting();
     }
 
     resume() {
-        if (this.isRunning) return;
         this.start();
     }
 
     reset() {
-        if (this.interval) {
-            clearInterval(this.interval);
+        this.stopCounting();
+        this.accumulatedMs = 0;
+
+        this.show();
+    }
+
+    /**
+     * Stops and resets the timer. Returns the elapsed time (never the
+     * time left), as recorded for the session.
+     */
+    stop(): string {
+        const finalTime = formatSeconds(this.getSeconds());
+
+        this.stopCounting();
+        this.accumulatedMs = 0;
+
+        this.show();
+
+        return finalTime;
+    }
+
+    isActive(): boolean {
+        return this.runningSince !== null;
+    }
+
+    getSeconds(): number {
+        return Math.floor(this.elapsedMs() / 1000);
+    }
+
+    /**
+     * Sets (or with null removes) the time limit; the display switches
+     * between counting down and counting up right away.
+     */
+    setTimeLimit(seconds: number | null) {
+        this.limitSeconds = seconds !== null && seconds > 0 ? seconds : null;
+        this.show();
+    }
+
+    getTimeLimit(): number | null {
+        return this.limitSeconds;
+    }
+
+    /**
+     * Seconds left until the limit (negative once past it), or null
+     * without a limit.
+     */
+    getRemainingSeconds(): number | null {
+        return this.limitSeconds === null ? null : this.limitSeconds - this.getSeconds();
+    }
+
+    getBudgetLevel(): BudgetLevel {
+        const remaining = this.getRemainingSeconds();
+        if (remaining === null || this.limitSeconds === null) {
+            return 'none';
+        }
+        if (remaining <= 0) {
+            return 'expired';
         }
+        if (remaining <= this.limitSeconds * CRITICAL_FRACTION) {
+            return 'critical';
+        }
+        return remaining <= this.limitSeconds * LOW_FRACTION ? 'low' : 'plenty';
+    }
 
-        this.interval = null;
-        this.seconds = 0;
-        this.isRunning = false;
+    /**
+     * Current state, to be saved with the session.
+     */
+    snapshot(): TimerSnapshot {
+        return {
+            elapsedMs: Math.round(this.elapsedMs()),
+            running: this.isActive(),
+            savedAt: this.wall()
+        };
+    }
+
+    /**
+     * Loads a saved state (paused) — used when switching between
+     * practice files and when restoring after a reload. A snapshot
+     * saved while running also gets the time since it was saved, within
+     * the reload grace period. The caller decides whether to start.
+     */
+    restore(snapshot: TimerSnapshot) {
+        this.stopCounting();
+
+        const sinceSave = this.wall() - snapshot.savedAt;
+        const missed = snapshot.running && sinceSave > 0 && sinceSave <= RELOAD_GRACE_MS ? sinceSave : 0;
+        this.accumulatedMs = Math.max(0, snapshot.elapsedMs) + missed;
 
-        this.onTick("00:00");
+        this.show();
     }
 
-    stop(): string {
+    private elapsedMs(): number {
+        return this.accumulatedMs + (this.runningSince === null ? 0 : this.monotonic() - this.runningSince);
+    }
+
+    private stopCounting() {
         if (this.interval) {
             clearInterval(this.interval);
         }
 
-        const finalTime = this.formatTime();
-
         this.interval = null;
-        this.seconds = 0;
-        this.isRunning = false;
-
-        this.onTick("00:00");
+        this.runningSince = null;
+    }
 
-        return finalTime;
+    // Reports the display only when it changed
+    private refresh() {
+        const formatted = this.formatTime();
+        if (formatted !== this.lastShown) {
+            this.show();
+        }
     }
 
-    isActive(): boolean {
-        return this.isRunning;
+    private show() {
+        this.lastShown = this.formatTime();
+        this.onTick(this.lastShown);
     }
 }
+
+/**
+ * "MM:SS", or "H:MM:SS" from one hour on.
+ */
+export function formatSeconds(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+
+    const mm = mins < 10 ? `0${mins}` : `${mins}`;
+    const ss = secs < 10 ? `0${secs}` : `${secs}`;
+
+    return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+}
@@ -0,0 +1,299 @@
+import * as path from "path";
+
+/**
+ * One entry of the topic taxonomy. Keywords are matched as whole
+ * words (or word sequences) against folder names, the file name and
+ * identifiers in the code, after splitting camelCase and snake_case.
+ */
+export interface TopicDefinition {
+    name: string;
+    keywords: string[];
+    subtopics?: TopicDefinition[];
+}
+
+// Built-in taxonomy, roughly in the order problems are usually learnt
+export const TOPICS: TopicDefinition[] = [
+    {
+        name: "Arrays & Hashing",
+        keywords: ["array", "arrays", "hash", "hashmap", "hashset", "dict", "frequency"],
+        subtopics: [
+            { name: "Prefix Sums", keywords: ["prefix", "prefix sum", "cumulative", "range sum"] },
+            { name: "Hash Maps", keywords: ["hashmap", "dict", "counter", "frequency", "two sum"] },
+            { name: "Matrices", keywords: ["matrix", "grid", "rotate", "spiral"] }
+        ]
+    },
+    {
+        name: "Two Pointers",
+        keywords: ["two pointers", "pointer", "pointers", "left right"],
+        subtopics: [
+            { name: "Sliding Window", keywords: ["window", "sliding", "substring"] },
+            { name: "Fast & Slow Pointers", keywords: ["fast slow", "tortoise", "hare"] },
+            { name: "Opposite Ends", keywords: ["left right", "three sum", "container"] }
+        ]
+    },
+    {
+        name: "Strings",
+        keywords: ["string", "strings", "str", "char", "chars", "text", "word", "words"],
+        subtopics: [
+            { name: "Palindromes", keywords: ["palindrome", "palindromic"] },
+            { name: "Anagrams", keywords: ["anagram", "anagrams"] },
+            { name: "Pattern Matching", keywords: ["pattern", "kmp", "regex", "match"] },
+            { name: "Parsing", keywords: ["parse", "parser", "tokenize", "tokens"] }
+        ]
+    },
+    {
+        name: "Searching",
+        keywords: ["search", "searching", "find", "lookup"],
+        subtopics: [
+            { name: "Binary Search", keywords: ["binary", "binary search", "bisect", "lower bound", "upper bound", "mid"] },
+            { name: "Binary Search on Answer", keywords: ["minimize maximum", "capacity", "feasible"] }
+        ]
+    },
+    {
+        name: "Sorting",
+        keywords: ["sort", "sorting", "sorted", "order"],
+        subtopics: [
+            { name: "Merge Sort", keywords: ["merge sort", "mergesort"] },
+            { name: "Quick Sort", keywords: ["quick sort", "quicksort", "partition", "pivot"] },
+            { name: "Counting Sort", keywords: ["counting sort", "bucket", "radix"] },
+            { name: "Custom Comparators", keywords: ["comparator", "compare", "key"] }
+        ]
+    },
+    {
+        name: "Linked List",
+        keywords: ["linked", "linked list", "linkedlist", "node", "next"],
+        subtopics: [
+            { name: "Reversal", keywords: ["reverse", "reversal"] },
+            { name: "Cycle Detection", keywords: ["cycle", "loop"] },
+            { name: "Merging Lists", keywords: ["merge", "merged"] }
+        ]
+    },
+    {
+        name: "Stacks & Queues",
+        keywords: ["stack", "stacks", "queue", "queues", "push", "pop", "deque"],
+        subtopics: [
+            { name: "Monotonic Stack", keywords: ["monotonic", "next greater", "histogram"] },
+            { name: "Bracket Matching", keywords: ["bracket", "brackets", "parentheses", "balanced"] },
+            { name: "Deque", keywords: ["deque", "double ended"] }
+        ]
+    },
+    {
+        name: "Trees",
+        keywords: ["tree", "trees", "root", "leaf", "children", "bst"],
+        subtopics: [
+            { name: "Traversals", keywords: ["inorder", "preorder", "postorder", "level order", "traversal"] },
+            { name: "Binary Search Trees", keywords: ["bst", "binary search tree"] },
+            { name: "Lowest Common Ancestor", keywords: ["lca", "ancestor"] },
+            { name: "Tries", keywords: ["trie", "prefix tree"] }
+        ]
+    },
+    {
+        name: "Heaps",
+        keywords: ["heap", "heaps", "heapq", "priority queue", "priorityqueue"],
+        subtopics: [
+            { name: "Top K", keywords: ["top k", "kth", "k largest", "k smallest"] },
+            { name: "Two Heaps", keywords: ["median", "two heaps"] }
+        ]
+    },
+    {
+        name: "Graphs",
+        keywords: ["graph", "graphs", "adj", "adjacency", "vertex", "vertices", "edge", "edges", "neighbors", "visited"],
+        subtopics: [
+            { name: "BFS", keywords: ["bfs", "breadth first", "level"] },
+            { name: "DFS", keywords: ["dfs", "depth first"] },
+            { name: "Shortest Paths", keywords: ["dijkstra", "bellman", "shortest", "shortest path", "floyd"] },
+            { name: "Topological Sort", keywords: ["topological", "topo", "indegree", "kahn"] },
+            { name: "Union-Find", keywords: ["union find", "disjoint", "dsu", "find parent"] },
+            { name: "Minimum Spanning Tree", keywords: ["mst", "kruskal", "prim", "spanning"] }
+        ]
+    },
+    {
+        name: "Dynamic Programming",
+        keywords: ["dp", "dynamic", "dynamic programming", "memo", "memoization", "tabulation", "lru cache"],
+        subtopics: [
+            { name: "1D DP", keywords: ["climbing stairs", "house robber", "fibonacci", "fib"] },
+            { name: "Grid DP", keywords: ["grid", "unique paths", "paths"] },
+            { name: "Knapsack", keywords: ["knapsack", "coin", "coins", "subset sum"] },
+            { name: "Subsequences", keywords: ["subsequence", "lcs", "lis", "edit distance"] }
+        ]
+    },
+    {
+        name: "Recursion & Backtracking",
+        keywords: ["recursion", "recursive", "backtrack", "backtracking"],
+        subtopics: [
+            { name: "Permutations", keywords: ["permutation", "permutations", "permute"] },
+            { name: "Subsets", keywords: ["subset", "subsets", "combination", "combinations", "power set"] },
+            { name: "Constraint Search", keywords: ["queens", "n queens", "sudoku", "maze"] }
+        ]
+    },
+    {
+        name: "Greedy",
+        keywords: ["greedy"],
+        subtopics: [
+            { name: "Intervals", keywords: ["interval", "intervals", "overlap", "meeting", "meetings"] },
+            { name: "Scheduling", keywords: ["schedule", "scheduling", "deadline", "jobs"] }
+        ]
+    },
+    {
+        name: "Math & Bit Manipulation",
+        keywords: ["math", "bits", "bit", "bitwise"],
+        subtopics: [
+            { name: "Primes", keywords: ["prime", "primes", "sieve"] },
+            { name: "GCD & LCM", keywords: ["gcd", "lcm"] },
+            { name: "Bit Tricks", keywords: ["xor", "bitmask", "mask", "shift"] },
+            { name: "Modular Arithmetic", keywords: ["mod", "modulo", "pow"] }
+        ]
+    }
+];
+
+// Used when nothing can be inferred
+export const GENERAL_TOPIC = "General Programming";
+
+// Separates a topic from its subtopic in labels, e.g. "Graphs / BFS"
+const LABEL_SEPARATOR = " / ";
+
+// Evidence from where the file lives outweighs identifiers in the code
+const WEIGHTS = { folder: 3, fileName: 4, code: 1 };
+
+// Code hits stop counting after this many, so long files do not drown out the file name
+const MAX_CODE_HITS = 3;
+
+// A single identifier in the code is not enough to infer a topic,
+// and weaker matches must score at least half of the best one
+const MIN_SCORE = 2;
+const RELATIVE_THRESHOLD = 0.5;
+
+export interface TopicMatch {
+    label: string;          // "Graphs" or "Graphs / BFS"
+    score: number;
+    sources: Array<"folder" | "file name" | "code">;
+}
+
+/**
+ * Label for a topic, or a subtopic under its topic.
+ */
+export function topicLabel(topic: TopicDefinition, subtopic?: TopicDefinition): string {
+    return subtopic ? `${topic.name}${LABEL_SEPARATOR}${subtopic.name}` : topic.name;
+}
+
+/**
+ * The top-level topic of a label: "Graphs / BFS" → "Graphs".
+ */
+export function parentTopic(label: string): string {
+    return label.split(LABEL_SEPARATOR)[0];
+}
+
+/**
+ * Every topic and subtopic label in taxonomy order.
+ */
+export function allTopicLabels(): string[] {
+    return TOPICS.flatMap(topic => [
+        topicLabel(topic),
+        ...(topic.subtopics ?? []).map(subtopic => topicLabel(topic, subtopic))
+    ]);
+}
+
+/**
+ * Turns the chosen topics into the phrase used in prompts and bank
+ * searches. Several topics ask for one problem that combines them.
+ */
+export function describeTopics(labels: string[]): string {
+    if (labels.length === 0) {
+        return GENERAL_TOPIC;
+    }
+    // "Graphs / BFS" reads as "BFS (Graphs)"
+    const readable = labels.map(label => {
+        const [topic, subtopic] = label.split(LABEL_SEPARATOR);
+        return subtopic ? `${subtopic} (${topic})` : topic;
+    });
+    return readable.length === 1
+        ? readable[0]
+        : `${readable.slice(0, -1).join(", ")} combined with ${readable[readable.length - 1]}`;
+}
+
+/**
+ * Guesses topics for a practice file from its folder names, its file
+ * name and the identifiers in its code. A subtopic match also counts
+ * towards its topic, and a topic is dropped when one of its subtopics
+ * is inferred. Best matches first; empty when nothing matched well.
+ */
+export function inferTopics(filePath: string, code: string): TopicMatch[] {
+    const folders = path.dirname(filePath).split(/[\\/]/).slice(-3).join(" ");
+    const sources = {
+        folder: wordsOf(folders),
+        fileName: wordsOf(path.basename(filePath, path.extname(filePath))),
+        code: wordsOf(code)
+    };
+
+    const matches: TopicMatch[] = [];
+
+    for (const topic of TOPICS) {
+        const topicMatch = scoreKeywords(topicLabel(topic), topic.keywords, sources);
+        let best: TopicMatch | null = null;
+
+        for (const subtopic of topic.subtopics ?? []) {
+            const subtopicMatch = scoreKeywords(topicLabel(topic, subtopic), subtopic.keywords, sources);
+            if (subtopicMatch.score === 0) {
+                continue;
+            }
+            subtopicMatch.score += topicMatch.score;
+            subtopicMatch.sources = [...new Set([...topicMatch.sources, ...subtopicMatch.sources])];
+            if (!best || subtopicMatch.score > best.score) {
+                best = subtopicMatch;
+            }
+        }
+
+        if (best) {
+            matches.push(best);
+        } else if (topicMatch.score > 0) {
+            matches.push(topicMatch);
+        }
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    const top = matches[0]?.score ?? 0;
+    return matches.filter(match => match.score >= MIN_SCORE && match.score >= top * RELATIVE_THRESHOLD);
+}
+
+function scoreKeywords(
+    label: string,
+    keywords: string[],
+    sources: { folder: string; fileName: string; code: string }
+): TopicMatch {
+    const match: TopicMatch = { label, score: 0, sources: [] };
+
+    const folderHit = keywords.some(keyword => containsPhrase(sources.folder, keyword));
+    if (folderHit) {
+        match.score += WEIGHTS.folder;
+        match.sources.push("folder");
+    }
+
+    const fileNameHit = keywords.some(keyword => containsPhrase(sources.fileName, keyword));
+    if (fileNameHit) {
+        match.score += WEIGHTS.fileName;
+        match.sources.push("file name");
+    }
+
+    const codeHits = keywords.filter(keyword => containsPhrase(sources.code, keyword)).length;
+    if (codeHits > 0) {
+        match.score += Math.min(codeHits, MAX_CODE_HITS) * WEIGHTS.code;
+        match.sources.push("code");
+    }
+
+    return match;
+}
+
+// Lower-case words separated by single spaces and padded with spaces,
+// with camelCase, snake_case and digits split apart
+function wordsOf(text: string): string {
+    const words = text
+        .replace(/([a-z])([A-Z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z]+/)
+        .filter(word => word.length > 0);
+    return ` ${words.join(" ")} `;
+}
+
+function containsPhrase(words: string, keyword: string): boolean {
+    return words.includes(` ${keyword} `);
+}
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { recommendDifficulty, classifySession } from '../services/adaptiveDifficulty';
+import { practiceRecord } from './fixtures';
+
+suite('Adaptive Difficulty', () => {
+
+	test('classifies sessions by help needed, verdict and time', () => {
+		assert.strictEqual(classifySession(practiceRecord({})), 'comfortable');
+		assert.strictEqual(classifySession(practiceRecord({ hintLevel: 1, verdict: 'Correct' })), 'comfortable');
+		assert.strictEqual(classifySession(practiceRecord({ verdict: 'Partially Correct' })), 'mixed');
+		assert.strictEqual(classifySession(practiceRecord({ seconds: 40 * 60 })), 'mixed');
+		assert.strictEqual(classifySession(practiceRecord({ hintLevel: 2 })), 'struggled');
+		assert.strictEqual(classifySession(practiceRecord({ solutionViewed: true })), 'struggled');
+		assert.strictEqual(classifySession(practiceRecord({ verdict: 'Needs Improvement' })), 'struggled');
+	});
+
+	test('falls back to the default without history for the topic', () => {
+		const history = [practiceRecord({ topics: ['Dynamic Programming'], difficulty: 'Hard' })];
+
+		assert.strictEqual(recommendDifficulty(history, ['Graphs / DFS'], 'Easy').difficulty, 'Easy');
+	});
+
+	test('steps up after two comfortable sessions in the same topic family', () => {
+		const history = [
+			practiceRecord({ solutionViewed: true }),
+			practiceRecord({ topics: ['Graphs / DFS'] }),
+			practiceRecord({})
+		];
+
+		const recommendation = recommendDifficulty(history, ['Graphs / Dijkstra'], 'Easy');
+		assert.strictEqual(recommendation.difficulty, 'Hard');
+		assert.ok(recommendation.reason.length > 0);
+	});
+
+	test('steps down after two struggles and stays on mixed results', () => {
+		const struggling = [practiceRecord({}), practiceRecord({ hintLevel: 3 }), practiceRecord({ solutionViewed: true })];
+		assert.strictEqual(recommendDifficulty(struggling, ['Graphs / BFS'], 'Medium').difficulty, 'Easy');
+
+		const mixed = [practiceRecord({ solutionViewed: true }), practiceRecord({})];
+		assert.strictEqual(recommendDifficulty(mixed, ['Graphs / BFS'], 'Easy').difficulty, 'Medium');
+	});
+
+	test('never moves past the easiest or hardest level', () => {
+		const easyStruggles = [practiceRecord({ difficulty: 'Easy', solutionViewed: true }), practiceRecord({ difficulty: 'Easy', solutionViewed: true })];
+		assert.strictEqual(recommendDifficulty(easyStruggles, ['Graphs'], 'Medium').difficulty, 'Easy');
+
+		const hardWins = [practiceRecord({ difficulty: 'Hard' }), practiceRecord({ difficulty: 'Hard' })];
+		assert.strictEqual(recommendDifficulty(hardWins, ['Graphs'], 'Medium').difficulty, 'Hard');
+	});
+});
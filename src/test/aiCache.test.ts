@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { AiResponseCache, AiCacheLimits, aiCacheKey } from '../services/aiCache';
+import { memoryState } from './fixtures';
+
+suite('AI Response Cache', () => {
+
+	const limits: AiCacheLimits = { maxEntries: 2, ttlDays: 30 };
+
+	test('keys ignore whitespace-only differences but not the task or language', () => {
+		const key = aiCacheKey('explainSelection', 'python', 'for x in xs:\n    print(x)\n');
+
+		assert.strictEqual(aiCacheKey('explainSelection', 'python', 'for x in xs:  \r\n\tprint(x)\r\n\r\n'), key);
+		assert.notStrictEqual(aiCacheKey('explainCode', 'python', 'for x in xs:\n    print(x)\n'), key);
+		assert.notStrictEqual(aiCacheKey('explainSelection', 'ruby', 'for x in xs:\n    print(x)\n'), key);
+		assert.notStrictEqual(aiCacheKey('explainSelection', 'python', 'for y in xs:\n    print(y)\n'), key);
+	});
+
+	test('keys keep blank lines, which answers count in line numbers', () => {
+		const key = aiCacheKey('evaluation', 'python', 'x = 1\nprint(x)');
+
+		assert.notStrictEqual(aiCacheKey('evaluation', 'python', 'x = 1\n\nprint(x)'), key);
+		assert.notStrictEqual(aiCacheKey('evaluation', 'python', '\nx = 1\nprint(x)'), key);
+	});
+
+	test('keys cover every piece of code the answer depends on', () => {
+		assert.notStrictEqual(
+			aiCacheKey('evaluation', 'python', 'print(1)', 'print(2)'),
+			aiCacheKey('evaluation', 'python', 'print(1)', 'print(3)')
+		);
+	});
+
+	test('returns stored answers and evicts the least recently used', async () => {
+		const cache = new AiResponseCache(memoryState(), () => limits);
+
+		await cache.set('a', { verdict: 'Correct' });
+		await cache.set('b', 2);
+		assert.deepStrictEqual(cache.get('a'), { verdict: 'Correct' });
+
+		await cache.set('c', 3);
+
+		assert.strictEqual(cache.size(), 2);
+		assert.strictEqual(cache.get('b'), undefined);
+		assert.strictEqual(cache.get('c'), 3);
+	});
+
+	test('drops expired answers and stores nothing when turned off', async () => {
+		const state = memoryState();
+		await state.update('codeforgex.aiCache', { old: { value: 1, storedAt: 0, usedAt: 0 } });
+
+		assert.strictEqual(new AiResponseCache(state, () => limits).get('old'), undefined);
+
+		const disabled = new AiResponseCache(memoryState(), () => ({ maxEntries: 0, ttlDays: 30 }));
+		await disabled.set('a', 1);
+		assert.strictEqual(disabled.get('a'), undefined);
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { backoffDelay, RateLimiter } from '../services/aiPipeline';
+import { aiErrorFromStatus, toAiRequestError, AiRequestError } from '../services/aiProvider';
+
+suite('AI Request Pipeline', () => {
+
+	test('backs off exponentially up to the cap', () => {
+		const noJitter = () => 0;
+
+		assert.deepStrictEqual(
+			[1, 2, 3, 4].map(attempt => backoffDelay(attempt, 0, noJitter)),
+			[1000, 2000, 4000, 8000]
+		);
+		assert.strictEqual(backoffDelay(10, 0, noJitter), 30000);
+		assert.strictEqual(backoffDelay(1, 0, () => 1), 750);
+	});
+
+	test('waits at least as long as the provider asks', () => {
+		assert.strictEqual(backoffDelay(1, 5000, () => 0), 5000);
+		assert.strictEqual(backoffDelay(1, 120000, () => 0), 30000);
+	});
+
+	test('rate limiter spaces requests over a sliding minute', () => {
+		let now = 0;
+		const limiter = new RateLimiter(() => now);
+
+		limiter.record();
+		now = 10000;
+		limiter.record();
+
+		assert.strictEqual(limiter.delayFor(2), 50000);
+		assert.strictEqual(limiter.delayFor(3), 0);
+		assert.strictEqual(limiter.delayFor(0), 0);
+
+		now = 60000;
+		assert.strictEqual(limiter.delayFor(2), 0);
+	});
+
+	test('classifies provider failures', () => {
+		assert.strictEqual(aiErrorFromStatus(401, 'Unauthorized').kind, 'auth');
+		assert.strictEqual(aiErrorFromStatus(429, 'Resource has been exhausted (e.g. check quota).').kind, 'rateLimited');
+		assert.strictEqual(aiErrorFromStatus(429, '{"code":"insufficient_quota"}').kind, 'quota');
+		assert.strictEqual(aiErrorFromStatus(503, 'overloaded').kind, 'server');
+		assert.strictEqual(aiErrorFromStatus(400, 'bad model').kind, 'badRequest');
+		assert.strictEqual(aiErrorFromStatus(429, '', '7').retryAfterMs, 7000);
+
+		assert.strictEqual(toAiRequestError(new TypeError('fetch failed')).kind, 'network');
+		assert.strictEqual(toAiRequestError({ status: 500, message: 'boom' }).kind, 'server');
+		assert.strictEqual(toAiRequestError(new Error('something odd')).kind, 'unknown');
+	});
+
+	test('only transient failures are retried and messages are for the user', () => {
+		const rateLimited = aiErrorFromStatus(429, 'slow down');
+		const auth = aiErrorFromStatus(403, 'API_KEY_INVALID');
+
+		assert.ok(rateLimited.transient);
+		assert.ok(!auth.transient);
+		assert.ok(auth instanceof AiRequestError);
+		assert.ok(!auth.message.includes('API_KEY_INVALID'));
+	});
+});
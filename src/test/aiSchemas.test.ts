@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import {
+	SchemaError,
+	parseJsonResponse,
+	validatePracticeQuestion,
+	validateLineExplanations,
+	validateCodeEvaluation,
+	previewStringField,
+	previewLineExplanations
+} from '../services/aiSchemas';
+
+suite('AI Response Schemas', () => {
+
+	test('parses JSON wrapped in markdown fences', () => {
+		const raw = 'Here you go:\n```json\n' +
+			'{"question":"Q","hints":["a","b","c"],"solution":"print(1)","tests":[{"input":"","expectedOutput":"1"}]}' +
+			'\n```';
+
+		const parsed = validatePracticeQuestion(parseJsonResponse(raw));
+
+		assert.deepStrictEqual(parsed, {
+			question: 'Q',
+			hints: ['a', 'b', 'c'],
+			solution: 'print(1)',
+			tests: [{ input: '', expectedOutput: '1', hidden: false }]
+		});
+	});
+
+	test('rejects a reply without JSON', () => {
+		assert.throws(() => parseJsonResponse('[QUESTION] old format'), SchemaError);
+	});
+
+	test('names the missing field', () => {
+		assert.throws(
+			() => validatePracticeQuestion({ question: 'Q', hints: ['a', 'b', 'c'], tests: [{ input: '', expectedOutput: '' }] }),
+			/"solution" must be a non-empty string/
+		);
+	});
+
+	test('requires a full hint ladder', () => {
+		assert.throws(
+			() => validatePracticeQuestion({ question: 'Q', hints: ['only one'], solution: 's', tests: [{ input: '', expectedOutput: '' }] }),
+			/"hints" must be an array of exactly 3 strings/
+		);
+	});
+
+	test('rejects an unknown verdict and bad suggestion lines', () => {
+		const base = {
+			correctness: 'a', edgeCases: 'b', timeComplexity: 'c', codeQuality: 'd', verdict: 'Correct'
+		};
+
+		assert.throws(() => validateCodeEvaluation({ ...base, verdict: 'Great' }), SchemaError);
+		assert.throws(
+			() => validateCodeEvaluation({
+				...base,
+				suggestions: [{ line: 0, issue: 'i', betterApproach: 'b', exampleReplacement: 'e' }]
+			}),
+			/suggestions\[0\]\.line/
+		);
+		assert.deepStrictEqual(validateCodeEvaluation(base).suggestions, []);
+	});
+
+	test('validates line explanations', () => {
+		assert.deepStrictEqual(
+			validateLineExplanations({ lines: [{ line: 2, explanation: ' Adds one. ' }] }),
+			[{ line: 2, explanation: 'Adds one.' }]
+		);
+		assert.throws(() => validateLineExplanations({ lines: [{ line: 'two', explanation: 'x' }] }), /lines\[0\]\.line/);
+	});
+
+	test('previews fields of a reply that is still streaming', () => {
+		assert.strictEqual(previewStringField('{"quest', 'question'), null);
+		assert.strictEqual(previewStringField('{"question": "Sum a \\"list\\"\\nof in', 'question'), 'Sum a "list"\nof in');
+		assert.strictEqual(previewStringField('{"question": "Done", "hints": [', 'question'), 'Done');
+		assert.strictEqual(previewStringField('{"question": "Cut \\', 'question'), 'Cut ');
+
+		const partial = '{"lines": [{"line": 1, "explanation": "Reads input."}, {"line": 3, "explana';
+		assert.deepStrictEqual(previewLineExplanations(partial), [{ line: 1, explanation: 'Reads input.' }]);
+	});
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import {
+	CommentSyntax,
+	getCommentSyntax,
+	commentLines,
+	isCommentLine,
+	isMarkerLine,
+	readLeadingComment
+} from '../services/commentSyntax';
+
+suite('Comment Syntax', () => {
+
+	const python = getCommentSyntax('python', '/work/solution.py');
+	const cpp = getCommentSyntax('cpp', '/work/solution.cpp');
+
+	test('uses the language registry, so Ruby gets # comments', () => {
+		const ruby = getCommentSyntax('ruby', '/work/solution.rb');
+
+		assert.strictEqual(commentLines(ruby, 'Question (Easy)\nSum a list'), '# Question (Easy)\n# Sum a list');
+		assert.strictEqual(getCommentSyntax('haskell', '/work/Main.hs').line, '--');
+	});
+
+	test('wraps each line when a language only has block comments', () => {
+		const css: CommentSyntax = { line: null, block: ['/*', '*/'], docstring: false };
+		const commented = commentLines(css, 'Hint:\nUse a map');
+
+		assert.strictEqual(commented, '/* Hint: */\n/* Use a map */');
+		assert.ok(isMarkerLine(css, commented.split('\n')[0], 'Hint:'));
+		assert.ok(isCommentLine(css, commented.split('\n')[1]));
+	});
+
+	test('recognises markers only inside comments', () => {
+		assert.ok(isMarkerLine(cpp, '  // Evaluation:', 'Evaluation:'));
+		assert.ok(!isMarkerLine(cpp, 'print("Evaluation:")', 'Evaluation:'));
+	});
+
+	test('reads leading line comments up to the first blank line', () => {
+		const content = '\n# Reverse a string\n# without slicing\n\n# not part of it\nprint(1)';
+
+		assert.strictEqual(readLeadingComment(python, content), 'Reverse a string without slicing');
+	});
+
+	test('reads a leading block comment', () => {
+		const content = '/**\n * Find the longest\n * palindrome.\n */\nint main() {}';
+
+		assert.strictEqual(readLeadingComment(cpp, content), 'Find the longest palindrome.');
+		assert.strictEqual(readLeadingComment(cpp, '/* Two sum */ int x;'), 'Two sum');
+	});
+
+	test('reads a Python docstring', () => {
+		assert.strictEqual(readLeadingComment(python, '"""\nCount vowels\nin a word.\n"""\n'), 'Count vowels in a word.');
+		assert.strictEqual(readLeadingComment(python, "'''Count vowels'''"), 'Count vowels');
+		assert.strictEqual(readLeadingComment(cpp, '"""Count vowels"""'), null);
+	});
+
+	test('returns null when the file starts with code', () => {
+		assert.strictEqual(readLeadingComment(python, 'print(1)\n# later'), null);
+		assert.strictEqual(readLeadingComment(python, '#\n#\n'), null);
+	});
+});
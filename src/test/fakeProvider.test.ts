@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { FakeProvider } from '../services/providers/fakeProvider';
+import { parseJsonResponse, validatePracticeQuestion, validateLineExplanations } from '../services/aiSchemas';
+
+suite('Fake AI Provider', () => {
+
+	test('returns the same question for the same request', async () => {
+		const provider = new FakeProvider();
+		const request = { task: 'practiceQuestion' as const, prompt: 'p', temperature: 0.6, language: 'python' };
+
+		const first = await provider.generate(request);
+		const second = await provider.generate(request);
+
+		assert.strictEqual(first, second);
+		assert.doesNotThrow(() => validatePracticeQuestion(parseJsonResponse(first)));
+	});
+
+	test('explains each non-empty line by number', async () => {
+		const provider = new FakeProvider();
+		const code = 'let a = 1;\n\nconsole.log(a);';
+
+		const reply = await provider.generate({
+			task: 'explainSelection', prompt: 'p', temperature: 0.7, language: 'javascript', code
+		});
+		const explanations = validateLineExplanations(parseJsonResponse(reply));
+
+		assert.deepStrictEqual(explanations.map(entry => entry.line), [1, 3]);
+	});
+
+	test('streams growing text that ends with the full reply', async () => {
+		const provider = new FakeProvider();
+		const request = { task: 'practiceQuestion' as const, prompt: 'p', temperature: 0.6, language: 'python' };
+		const received: string[] = [];
+
+		const reply = await provider.generate(request, { onText: text => received.push(text) });
+
+		assert.ok(received.length > 1);
+		assert.ok(received.every((text, index) => index === 0 || text.startsWith(received[index - 1])));
+		assert.strictEqual(received[received.length - 1], reply);
+	});
+
+	test('stops streaming when the request is aborted', async () => {
+		const provider = new FakeProvider();
+		const controller = new AbortController();
+		const request = { task: 'practiceQuestion' as const, prompt: 'p', temperature: 0.6, language: 'python' };
+		let chunks = 0;
+
+		await assert.rejects(
+			provider.generate(request, {
+				signal: controller.signal,
+				onText: () => {
+					if (++chunks === 2) {
+						controller.abort();
+					}
+				}
+			}),
+			{ name: 'AbortError' }
+		);
+		assert.strictEqual(chunks, 2);
+	});
+});
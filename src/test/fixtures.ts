@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { PracticeRecord } from '../services/historyService';
+
+// In-memory stand-in for ExtensionContext.globalState / workspaceState
+export function memoryState(): vscode.Memento {
+	const values = new Map<string, unknown>();
+	return {
+		keys: () => [...values.keys()],
+		get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+		update: async (key: string, value: unknown) => { values.set(key, value); }
+	};
+}
+
+let recordCount = 0;
+
+// A comfortable 10-minute Medium session; records are dated one day
+// apart in the order they are created
+export function practiceRecord(overrides: Partial<PracticeRecord> = {}): PracticeRecord {
+	recordCount++;
+	return {
+		sessionId: `s${recordCount}`,
+		question: 'Two Sum',
+		topics: ['Graphs / BFS'],
+		timeTaken: '10:00',
+		activeSeconds: 600,
+		idleSeconds: 0,
+		hintsUsed: 0,
+		hintLevel: 0,
+		solutionViewed: false,
+		passRate: 1,
+		withinBudget: null,
+		language: 'python',
+		date: new Date(2026, 8, recordCount).toISOString(),
+		difficulty: 'Medium',
+		seconds: 10 * 60,
+		verdict: null,
+		...overrides
+	};
+}
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { IdleMonitor, AwayReason } from '../services/idleMonitor';
+
+suite('Idle Monitor', () => {
+
+	const MINUTE = 60 * 1000;
+
+	function monitor() {
+		let now = 0;
+		const events: string[] = [];
+		const idle = new IdleMonitor({
+			away: (reason: AwayReason) => events.push(`away:${reason}`),
+			back: seconds => events.push(`back:${seconds}`)
+		}, () => now);
+		return { idle, events, advance: (ms: number) => { now += ms; } };
+	}
+
+	test('reports the user away after the idle period and back on activity', () => {
+		const { idle, events, advance } = monitor();
+
+		advance(4 * MINUTE);
+		idle.check(5 * MINUTE);
+		assert.deepStrictEqual(events, []);
+
+		advance(MINUTE);
+		idle.check(5 * MINUTE);
+		idle.check(5 * MINUTE);
+		advance(10 * MINUTE);
+		idle.activity();
+
+		assert.deepStrictEqual(events, ['away:idle', 'back:600']);
+		assert.ok(!idle.isAway());
+	});
+
+	test('activity restarts the idle period', () => {
+		const { idle, events, advance } = monitor();
+
+		advance(4 * MINUTE);
+		idle.activity();
+		advance(4 * MINUTE);
+		idle.check(5 * MINUTE);
+
+		assert.deepStrictEqual(events, []);
+	});
+
+	test('losing focus counts as away right away', () => {
+		const { idle, events, advance } = monitor();
+
+		idle.blur();
+		advance(30 * 1000);
+		idle.activity();
+
+		assert.deepStrictEqual(events, ['away:blur', 'back:30']);
+	});
+
+	test('an idle period of 0 never reports away', () => {
+		const { idle, events, advance } = monitor();
+
+		advance(60 * MINUTE);
+		idle.check(0);
+
+		assert.deepStrictEqual(events, []);
+	});
+
+	test('settling ends the away period without reporting it', () => {
+		const { idle, events, advance } = monitor();
+
+		idle.blur();
+		advance(90 * 1000);
+
+		assert.strictEqual(idle.settle(), 90);
+		assert.strictEqual(idle.settle(), 0);
+		idle.activity();
+		assert.deepStrictEqual(events, ['away:blur']);
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { judgeFile, judgeVerdict, outputsMatch } from '../services/judgeService';
+import { SandboxLimits } from '../services/sandbox';
+
+const LIMITS: SandboxLimits = { cpuTimeSeconds: 2, wallTimeSeconds: 5, memoryMb: 256, maxOutputKb: 64, disableNetwork: true };
+
+suite('Local Judge', () => {
+
+	test('ignores line endings and trailing whitespace', () => {
+		assert.ok(outputsMatch('6  \r\n', '6'));
+		assert.ok(!outputsMatch('6', '7'));
+	});
+
+	test('maps the pass count to a verdict', () => {
+		const report = (passed: number, total: number) => ({ results: [], passed, total, passRate: total > 0 ? passed / total : 0 });
+
+		assert.strictEqual(judgeVerdict(report(3, 3)), 'Correct');
+		assert.strictEqual(judgeVerdict(report(1, 3)), 'Partially Correct');
+		assert.strictEqual(judgeVerdict(report(0, 3)), 'Needs Improvement');
+	});
+
+	test('reports pass/fail per test case', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cfx-judge-'));
+		const file = path.join(dir, 'double.js');
+		fs.writeFileSync(file, 'const n = Number(require("fs").readFileSync(0, "utf8"));\nconsole.log(n * 2);\n');
+
+		const report = await judgeFile('javascript', file, [
+			{ input: '2', expectedOutput: '4', hidden: false },
+			{ input: '5', expectedOutput: '11', hidden: true }
+		], LIMITS);
+
+		assert.strictEqual(report.passed, 1);
+		assert.strictEqual(report.total, 2);
+		assert.strictEqual(report.passRate, 0.5);
+		assert.strictEqual(report.results[1].passed, false);
+		assert.strictEqual(report.results[1].verdict, 'OK');
+	});
+
+	test('reports a time limit verdict for a program that never ends', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cfx-judge-'));
+		const file = path.join(dir, 'spin.js');
+		fs.writeFileSync(file, 'for (;;) {}\n');
+
+		const report = await judgeFile('javascript', file, [
+			{ input: '', expectedOutput: '', hidden: false }
+		], { ...LIMITS, cpuTimeSeconds: 1 });
+
+		assert.strictEqual(report.results[0].verdict, 'TLE');
+		assert.strictEqual(report.results[0].passed, false);
+	});
+});
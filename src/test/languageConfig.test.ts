@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	BUILT_IN_LANGUAGES,
+	mergeLanguageDefinitions,
+	findLanguageDefinition,
+	buildLanguageConfig
+} from '../services/languageConfig';
+
+suite('Language Registry', () => {
+
+	const file = path.join('/work', 'my dir', 'solution.cpp');
+
+	test('fills command templates and keeps paths with spaces as one argument', () => {
+		const config = buildLanguageConfig(BUILT_IN_LANGUAGES.cpp, file);
+
+		assert.strictEqual(config.compile!.command, 'g++');
+		assert.deepStrictEqual(config.compile!.args, [file, '-o', path.join('/work', 'my dir', 'solution')]);
+		assert.strictEqual(config.run.command, path.join('/work', 'my dir', 'solution'));
+	});
+
+	test('merges user overrides over the built-in definition', () => {
+		const definitions = mergeLanguageDefinitions({
+			cpp: { compile: 'g++ -O2 -std=c++17 ${file} -o ${outputPath}' }
+		});
+		const config = buildLanguageConfig(definitions.cpp, file);
+
+		assert.deepStrictEqual(config.compile!.args.slice(0, 2), ['-O2', '-std=c++17']);
+		assert.deepStrictEqual(definitions.cpp.extensions, BUILT_IN_LANGUAGES.cpp.extensions);
+	});
+
+	test('adds new languages and finds them by extension', () => {
+		const definitions = mergeLanguageDefinitions({
+			zig: { extensions: ['.zig'], run: ['zig', 'run', '${file}'] },
+			broken: { extensions: ['.nope'] }
+		});
+
+		assert.strictEqual(findLanguageDefinition(definitions, 'plaintext', '/work/main.zig'), definitions.zig);
+		assert.strictEqual(definitions.broken, undefined);
+		assert.strictEqual(findLanguageDefinition(definitions, 'bash', '/work/x'), definitions.shellscript);
+	});
+});
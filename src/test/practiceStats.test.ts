@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { PracticeHistory } from '../services/historyService';
+import { computeStats, median, parseDuration } from '../services/practiceStats';
+import { memoryState, practiceRecord } from './fixtures';
+
+suite('Practice Statistics', () => {
+
+	// Wednesday 2026-10-14; its week starts Monday 2026-10-12
+	const now = new Date(2026, 9, 14, 18);
+
+	test('median and durations', () => {
+		assert.strictEqual(median([]), null);
+		assert.strictEqual(median([5, 1, 3]), 3);
+		assert.strictEqual(median([4, 1, 3, 2]), 2.5);
+		assert.strictEqual(parseDuration('12:05'), 725);
+		assert.strictEqual(parseDuration('1:02:03'), 3723);
+		assert.strictEqual(parseDuration('soon'), 0);
+	});
+
+	test('summarizes hint use, solution views and times', () => {
+		const stats = computeStats([
+			practiceRecord({ seconds: 100 }),
+			practiceRecord({ seconds: 300, hintsUsed: 2 }),
+			practiceRecord({ seconds: 900, hintsUsed: 1, solutionViewed: true }),
+			practiceRecord({ seconds: 200 })
+		], now);
+
+		assert.strictEqual(stats.solved, 4);
+		assert.strictEqual(stats.medianSeconds, 250);
+		assert.strictEqual(stats.hintUsageRate, 0.5);
+		assert.strictEqual(stats.averageHints, 0.75);
+		assert.strictEqual(stats.solutionViewRate, 0.25);
+	});
+
+	test('groups by top-level topic, language and difficulty', () => {
+		const stats = computeStats([
+			practiceRecord({ topics: ['Graphs / BFS', 'Graphs / DFS'], language: 'java', difficulty: 'Hard' }),
+			practiceRecord({ topics: ['Graphs / BFS', 'Dynamic Programming'] }),
+			practiceRecord({ topics: [], difficulty: null })
+		], now);
+
+		assert.deepStrictEqual(
+			stats.byTopic.map(group => [group.name, group.solved]),
+			[['Graphs', 2], ['Dynamic Programming', 1], ['General Programming', 1]]
+		);
+		assert.deepStrictEqual(stats.byLanguage.map(group => group.name), ['python', 'java']);
+		assert.deepStrictEqual(stats.byDifficulty.map(group => group.name), ['Hard', 'Medium', 'Not set']);
+	});
+
+	test('trend covers recent weeks including empty ones', () => {
+		const stats = computeStats([
+			practiceRecord({ date: new Date(2026, 9, 12, 0, 30).toISOString() }),
+			practiceRecord({ date: new Date(2026, 9, 11, 23, 30).toISOString(), solutionViewed: true }),
+			practiceRecord({ date: new Date(2026, 5, 1).toISOString() })
+		], now);
+
+		assert.strictEqual(stats.weekly.length, 8);
+		assert.deepStrictEqual(stats.weekly[7], { weekStart: '2026-10-12', solved: 1, medianSeconds: 600, solutionViewRate: 0 });
+		assert.deepStrictEqual(stats.weekly[6], { weekStart: '2026-10-05', solved: 1, medianSeconds: 600, solutionViewRate: 1 });
+		assert.strictEqual(stats.weekly[5].medianSeconds, null);
+	});
+
+	test('history stores each session once', async () => {
+		const history = new PracticeHistory(memoryState());
+
+		await history.add(practiceRecord({ sessionId: 'a' }));
+		await history.add(practiceRecord({ sessionId: 'b' }));
+		await history.add(practiceRecord({ sessionId: 'a', hintsUsed: 3 }));
+
+		assert.deepStrictEqual(history.all().map(entry => [entry.sessionId, entry.hintsUsed]), [['b', 0], ['a', 3]]);
+	});
+});
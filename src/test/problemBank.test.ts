@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { ProblemBank, toPracticeQuestion } from '../services/problemBank';
+
+suite('Offline Problem Bank', () => {
+
+	const bank = new ProblemBank(vscode.Uri.file(os.tmpdir()));
+
+	test('finds problems by topic and difficulty', () => {
+		const results = bank.search('Dynamic Programming', 'Hard');
+
+		assert.ok(results.length > 0);
+		assert.strictEqual(results[0].topic, 'Dynamic Programming');
+		assert.strictEqual(results[0].difficulty, 'Hard');
+	});
+
+	test('falls back to any problem of the difficulty for unknown topics', () => {
+		const problem = bank.pick('General Programming', 'Easy');
+
+		assert.ok(problem);
+		assert.strictEqual(problem!.difficulty, 'Easy');
+	});
+
+	test('converts to the AI question shape for the requested language', () => {
+		const problem = bank.search('Searching', 'Easy')[0];
+
+		const question = toPracticeQuestion(problem, 'python');
+
+		assert.strictEqual(question.hints.length, 3);
+		assert.ok(question.solution.includes('def '));
+		assert.strictEqual(toPracticeQuestion(problem, 'cobol').solution, '');
+	});
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import {
+	ReviewScheduler,
+	PracticeOutcome,
+	sessionQuality,
+	nextInterval,
+	problemKey,
+	topicKey
+} from '../services/reviewScheduler';
+import { memoryState } from './fixtures';
+
+function outcome(overrides: Partial<PracticeOutcome> = {}): PracticeOutcome {
+	return {
+		problem: { question: 'Count the islands in a grid.', hints: ['h1'], solution: 'pass', tests: [] },
+		topics: ['Graphs / BFS'],
+		difficulty: 'Medium',
+		language: 'python',
+		seconds: 10 * 60,
+		hintLevel: 0,
+		solutionViewed: false,
+		verdict: null,
+		reviewOf: null,
+		...overrides
+	};
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+suite('Review Scheduler', () => {
+
+	test('grades sessions from hints, verdict, time and solution views', () => {
+		assert.strictEqual(sessionQuality(outcome()), 5);
+		assert.strictEqual(sessionQuality(outcome({ hintLevel: 1 })), 4);
+		assert.strictEqual(sessionQuality(outcome({ hintLevel: 1, verdict: 'Partially Correct' })), 3);
+		assert.strictEqual(sessionQuality(outcome({ seconds: 90 * 60, hintLevel: 3 })), 2);
+		assert.strictEqual(sessionQuality(outcome({ solutionViewed: true })), 1);
+	});
+
+	test('a quick solve with the pseudocode hint resets the interval', () => {
+		const quality = sessionQuality(outcome({ seconds: 5 * 60, hintLevel: 3, verdict: 'Correct' }));
+		const step = nextInterval({ easeFactor: 2.5, repetitions: 2, intervalDays: 6 }, quality);
+
+		assert.ok(quality < 3);
+		assert.strictEqual(step.repetitions, 0);
+		assert.strictEqual(step.intervalDays, 1);
+	});
+
+	test('intervals follow SM-2', () => {
+		let state = { easeFactor: 2.5, repetitions: 0, intervalDays: 0 };
+		const intervals: number[] = [];
+		for (let review = 0; review < 4; review++) {
+			state = nextInterval(state, 5);
+			intervals.push(state.intervalDays);
+		}
+
+		assert.deepStrictEqual(intervals, [1, 6, 16, 45]);
+
+		const failed = nextInterval(state, 1);
+		assert.strictEqual(failed.repetitions, 0);
+		assert.strictEqual(failed.intervalDays, 1);
+		assert.ok(failed.easeFactor < state.easeFactor);
+		assert.ok(nextInterval({ easeFactor: 1.3, repetitions: 0, intervalDays: 0 }, 0).easeFactor >= 1.3);
+	});
+
+	test('schedules the problem and each of its topics', async () => {
+		const scheduler = new ReviewScheduler(memoryState());
+		const now = new Date(2026, 9, 14, 18).getTime();
+
+		await scheduler.record(outcome({ topics: ['Graphs / BFS', 'Arrays & Hashing'] }), now);
+
+		const keys = scheduler.all().map(item => item.key).sort();
+		assert.deepStrictEqual(keys, [
+			problemKey('Count the islands in a grid.'),
+			topicKey('Arrays & Hashing'),
+			topicKey('Graphs / BFS')
+		].sort());
+
+		assert.strictEqual(scheduler.due(now).length, 0);
+	});
+
+	test('a due problem stands in for the topics it covers', async () => {
+		const scheduler = new ReviewScheduler(memoryState());
+		const now = new Date(2026, 9, 14, 18).getTime();
+
+		await scheduler.record(outcome({ topics: ['Graphs / BFS', 'Arrays & Hashing'] }), now);
+		await scheduler.record(outcome({ problem: null, topics: ['Dynamic Programming'] }), now);
+
+		assert.deepStrictEqual(
+			scheduler.due(new Date(2026, 9, 15, 0, 1).getTime()).map(item => item.key).sort(),
+			[problemKey('Count the islands in a grid.'), topicKey('Dynamic Programming')].sort()
+		);
+	});
+
+	test('a variant continues the schedule of the problem it reviews', async () => {
+		const scheduler = new ReviewScheduler(memoryState());
+		const now = new Date(2026, 9, 14, 18).getTime();
+		const original = problemKey('Count the islands in a grid.');
+
+		await scheduler.record(outcome(), now);
+		await scheduler.record(outcome({
+			problem: { question: 'Count the lakes on a map.', hints: [], solution: '', tests: [] },
+			reviewOf: original
+		}), now + DAY_MS);
+
+		assert.strictEqual(scheduler.get(original)?.repetitions, 2);
+		assert.strictEqual(scheduler.get(problemKey('Count the lakes on a map.')), undefined);
+	});
+
+	test('postponing moves the due date', async () => {
+		const scheduler = new ReviewScheduler(memoryState());
+		const now = new Date(2026, 9, 14, 18).getTime();
+
+		await scheduler.record(outcome({ solutionViewed: true }), now);
+		const due = now + 2 * DAY_MS;
+		assert.deepStrictEqual(scheduler.due(due).map(item => item.kind), ['problem']);
+
+		// The topic moves with the problem instead of taking its place
+		await scheduler.postpone(problemKey('Count the islands in a grid.'), 1, due);
+		assert.deepStrictEqual(scheduler.due(due), []);
+		assert.strictEqual(scheduler.due(due + DAY_MS).length, 1);
+	});
+});
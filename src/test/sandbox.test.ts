@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import { classifyRun, runSandboxed, SandboxLimits } from '../services/sandbox';
+import { ProcessResult } from '../services/runService';
+
+const LIMITS: SandboxLimits = { cpuTimeSeconds: 1, wallTimeSeconds: 5, memoryMb: 128, maxOutputKb: 16, disableNetwork: true };
+
+function processResult(overrides: Partial<ProcessResult>): ProcessResult {
+	return {
+		stdout: '', stderr: '', exitCode: 0, signal: null,
+		timedOut: false, outputLimitExceeded: false, durationMs: 1,
+		...overrides
+	};
+}
+
+// A killed process nobody has reaped yet (a zombie) counts as stopped
+function isRunning(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+	} catch {
+		return false;
+	}
+	if (process.platform !== 'linux') {
+		return true;
+	}
+	try {
+		return !/^\d+ \(.*\) Z /.test(fs.readFileSync(`/proc/${pid}/stat`, 'utf8'));
+	} catch {
+		return false;
+	}
+}
+
+suite('Execution Sandbox', () => {
+
+	test('classifies how a process ended', () => {
+		assert.strictEqual(classifyRun(processResult({})), 'OK');
+		assert.strictEqual(classifyRun(processResult({ exitCode: null, timedOut: true })), 'TLE');
+		assert.strictEqual(classifyRun(processResult({ exitCode: null, signal: 'SIGXCPU' })), 'TLE');
+		assert.strictEqual(classifyRun(processResult({ exitCode: null, outputLimitExceeded: true })), 'OLE');
+		assert.strictEqual(classifyRun(processResult({ exitCode: 1, stderr: 'MemoryError' })), 'MLE');
+		assert.strictEqual(classifyRun(processResult({ exitCode: 1, stderr: 'ZeroDivisionError' })), 'RE');
+	});
+
+	test('stops a program that prints without end', async () => {
+		const result = await runSandboxed('node', ['-e', 'const s = "x".repeat(65536); for (;;) process.stdout.write(s);'], { cwd: os.tmpdir(), limits: LIMITS });
+
+		assert.strictEqual(result.verdict, 'OLE');
+		assert.ok(result.stdout.length <= LIMITS.maxOutputKb * 1024);
+	});
+
+	test('stops a program that forks at the wall time limit', async function () {
+		this.timeout(10000);
+
+		// The child starts a grandchild that shares its output pipes, prints its pid and never ends
+		const forking = `
+			const { spawn } = require('child_process');
+			const grandchild = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'inherit' });
+			console.log(grandchild.pid);
+			setInterval(() => {}, 1000);`;
+		const result = await runSandboxed('node', ['-e', forking], { cwd: os.tmpdir(), limits: { ...LIMITS, wallTimeSeconds: 1 } });
+
+		assert.strictEqual(result.verdict, 'TLE');
+		assert.ok(result.durationMs < 4000, `took ${result.durationMs} ms`);
+
+		const grandchildPid = Number(result.stdout.trim());
+		assert.ok(grandchildPid > 0);
+		// The kill is delivered asynchronously; give it a moment to land
+		for (let waited = 0; waited < 1000 && isRunning(grandchildPid); waited += 50) {
+			await new Promise(resolve => setTimeout(resolve, 50));
+		}
+		assert.ok(!isRunning(grandchildPid), 'the grandchild is still running');
+	});
+
+	test('reports running out of memory', async function () {
+		if (process.platform !== 'linux') {
+			this.skip();
+		}
+
+		const result = await runSandboxed(
+			'node',
+			['-e', 'const a = []; for (;;) a.push(new Array(1e6).fill(1));'],
+			{ cwd: os.tmpdir(), limits: { ...LIMITS, cpuTimeSeconds: 5 } }
+		);
+
+		assert.strictEqual(result.verdict, 'MLE');
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { SyncQueue, backoffDelay, isPermanentFailure } from '../services/syncQueue';
+import { PracticeData } from '../services/apiService';
+import { memoryState } from './fixtures';
+
+function practiceData(sessionId: string): PracticeData {
+	return {
+		sessionId,
+		question: 'Two Sum',
+		topics: ['Arrays & Hashing / Hash Maps'],
+		timeTaken: '05:00',
+		activeSeconds: 300,
+		idleSeconds: 0,
+		hintsUsed: 0,
+		hintLevel: 0,
+		solutionViewed: false,
+		passRate: 1,
+		withinBudget: null,
+		language: 'python',
+		date: new Date().toISOString()
+	};
+}
+
+suite('Offline Sync Queue', () => {
+
+	test('stores a session only once', async () => {
+		const queue = new SyncQueue(memoryState());
+
+		await queue.enqueue(practiceData('a'));
+		await queue.enqueue(practiceData('a'));
+		await queue.enqueue(practiceData('b'));
+
+		assert.strictEqual(queue.count(), 2);
+	});
+
+	test('failed entries wait for their backoff unless forced', async () => {
+		const queue = new SyncQueue(memoryState());
+
+		await queue.enqueue(practiceData('a'));
+		await queue.markFailed('a');
+
+		assert.strictEqual(queue.due(false).length, 0);
+		assert.strictEqual(queue.due(true).length, 1);
+		assert.ok(queue.msUntilNextDue()! > 0);
+	});
+
+	test('keeps only the most recent sessions', async () => {
+		const queue = new SyncQueue(memoryState());
+
+		for (let index = 0; index < 505; index++) {
+			await queue.enqueue(practiceData(`s${index}`));
+		}
+
+		assert.strictEqual(queue.count(), 500);
+		assert.strictEqual(queue.pending()[0].data.sessionId, 's5');
+	});
+
+	test('only retries client errors that can succeed later', () => {
+		assert.deepStrictEqual([400, 404, 409, 422].map(isPermanentFailure), [true, true, true, true]);
+		assert.deepStrictEqual([401, 408, 429, 500, 503].map(isPermanentFailure), [false, false, false, false, false]);
+	});
+
+	test('backoff doubles and is capped', () => {
+		assert.strictEqual(backoffDelay(1), 30 * 1000);
+		assert.strictEqual(backoffDelay(2), 60 * 1000);
+		assert.strictEqual(backoffDelay(50), 6 * 60 * 60 * 1000);
+	});
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { PracticeTimer, TimerSnapshot, formatSeconds } from '../services/timerService';
+
+// Timer on fake clocks: `monotonic` drives elapsed time, `wall` the snapshots
+function fakeTimer(onTick: (time: string) => void = () => undefined) {
+	const clock = { monotonic: 0, wall: 1_000_000 };
+	const timer = new PracticeTimer(onTick, () => clock.monotonic, () => clock.wall);
+	const advance = (ms: number) => {
+		clock.monotonic += ms;
+		clock.wall += ms;
+	};
+	return { timer, clock, advance };
+}
+
+function paused(elapsedSeconds: number): TimerSnapshot {
+	return { elapsedMs: elapsedSeconds * 1000, running: false, savedAt: 0 };
+}
+
+suite('Practice Timer', () => {
+
+	test('formats minutes and hours', () => {
+		assert.strictEqual(formatSeconds(75), '01:15');
+		assert.strictEqual(formatSeconds(100 * 60), '1:40:00');
+		assert.strictEqual(formatSeconds(3600 + 5), '1:00:05');
+	});
+
+	test('measures elapsed time from timestamps, not ticks', () => {
+		const { timer, advance } = fakeTimer();
+
+		timer.start();
+		advance(90 * 1000);
+		timer.pause();
+		advance(60 * 1000);
+
+		assert.strictEqual(timer.getSeconds(), 90);
+
+		timer.resume();
+		advance(30 * 1000 + 500);
+		assert.strictEqual(timer.getSeconds(), 120);
+		assert.strictEqual(timer.stop(), '02:00');
+		assert.strictEqual(timer.getSeconds(), 0);
+	});
+
+	test('snapshots survive a reload and count a short gap while running', () => {
+		const { timer, clock, advance } = fakeTimer();
+
+		timer.start();
+		advance(5 * 60 * 1000);
+		const saved = timer.snapshot();
+		timer.pause();
+
+		// New window: monotonic clock starts over, wall clock moved on 20 seconds
+		const next = fakeTimer();
+		next.clock.wall = clock.wall + 20 * 1000;
+		next.timer.restore(saved);
+		assert.strictEqual(next.timer.getSeconds(), 320);
+
+		// After a crash and a long gap, only the saved time counts
+		next.clock.wall = clock.wall + 60 * 60 * 1000;
+		next.timer.restore(saved);
+		assert.strictEqual(next.timer.getSeconds(), 300);
+
+		// A paused snapshot never gains time
+		next.timer.restore({ ...saved, running: false });
+		assert.strictEqual(next.timer.getSeconds(), 300);
+	});
+
+	test('counts down and shows overtime once the limit has passed', () => {
+		const shown: string[] = [];
+		const { timer } = fakeTimer(time => shown.push(time));
+
+		timer.setTimeLimit(600);
+		assert.strictEqual(shown.pop(), '10:00');
+
+		timer.restore(paused(450));
+		assert.strictEqual(shown.pop(), '02:30');
+		assert.strictEqual(timer.getBudgetLevel(), 'low');
+
+		timer.restore(paused(660));
+		assert.strictEqual(shown.pop(), '+01:00');
+		assert.strictEqual(timer.getBudgetLevel(), 'expired');
+	});
+
+	test('budget levels follow the time left', () => {
+		const { timer } = fakeTimer();
+		timer.setTimeLimit(1000);
+
+		const levels = [0, 760, 910, 1000].map(seconds => {
+			timer.restore(paused(seconds));
+			return timer.getBudgetLevel();
+		});
+
+		assert.deepStrictEqual(levels, ['plenty', 'low', 'critical', 'expired']);
+	});
+
+	test('stop reports elapsed time, not time left', () => {
+		const { timer } = fakeTimer();
+		timer.setTimeLimit(600);
+		timer.restore(paused(125));
+
+		assert.strictEqual(timer.stop(), '02:05');
+		assert.strictEqual(timer.getSeconds(), 0);
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import {
+	inferTopics,
+	describeTopics,
+	parentTopic,
+	allTopicLabels,
+	GENERAL_TOPIC
+} from '../services/topics';
+
+suite('Topic Taxonomy', () => {
+
+	test('infers a subtopic from the file name', () => {
+		const matches = inferTopics('/practice/binarySearch.py', '');
+
+		assert.strictEqual(matches[0].label, 'Searching / Binary Search');
+		assert.deepStrictEqual(matches[0].sources, ['file name']);
+	});
+
+	test('combines folder and code evidence', () => {
+		const code = 'from collections import deque\nvisited = set()\nqueue = deque([start])\n# bfs over adj';
+		const matches = inferTopics('/practice/graphs/islands.py', code);
+
+		assert.strictEqual(matches[0].label, 'Graphs / BFS');
+		assert.deepStrictEqual(matches[0].sources, ['folder', 'code']);
+	});
+
+	test('returns several topics for problems that mix them', () => {
+		const labels = inferTopics('/practice/dp/knapsack_heap.py', '').map(match => match.label);
+
+		assert.ok(labels.includes('Dynamic Programming / Knapsack'));
+		assert.ok(labels.includes('Heaps'));
+	});
+
+	test('infers nothing from a single common identifier', () => {
+		assert.deepStrictEqual(inferTopics('/work/main.py', 'key = input()'), []);
+	});
+
+	test('describes topics for prompts', () => {
+		assert.strictEqual(describeTopics([]), GENERAL_TOPIC);
+		assert.strictEqual(describeTopics(['Graphs / BFS']), 'BFS (Graphs)');
+		assert.strictEqual(describeTopics(['Strings', 'Heaps / Top K']), 'Strings combined with Top K (Heaps)');
+		assert.strictEqual(parentTopic('Graphs / BFS'), 'Graphs');
+	});
+
+	test('labels are unique', () => {
+		const labels = allTopicLabels();
+		assert.strictEqual(new Set(labels).size, labels.length);
+	});
+});
@@ -0,0 +1,185 @@
+import * as vscode from "vscode";
+import { CodeEvaluation, EvaluationSuggestion } from "../services/aiSchemas";
+
+const DIAGNOSTIC_SOURCE = "CodeForgeX";
+
+interface SuggestionDiagnostic {
+    diagnostic: vscode.Diagnostic;
+    replacement: string;
+}
+
+/**
+ * Publishes evaluation suggestions as diagnostics (squiggles plus
+ * Problems panel entries) and offers each "Example Replacement" as a
+ * Quick Fix. The document itself is never edited until the user
+ * applies a fix.
+ */
+export class EvaluationDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private collection = vscode.languages.createDiagnosticCollection("codeforgex");
+    private suggestions = new Map<string, SuggestionDiagnostic[]>();
+    private changeListener: vscode.Disposable;
+
+    constructor() {
+        this.changeListener = vscode.workspace.onDidChangeTextDocument(event => this.trackEdits(event));
+    }
+
+    /**
+     * Replaces the document's diagnostics with the evaluation's
+     * suggestions. Suggestions pointing past the end are dropped.
+     */
+    publish(document: vscode.TextDocument, evaluation: CodeEvaluation): void {
+        const severity = evaluation.verdict === "Correct"
+            ? vscode.DiagnosticSeverity.Information
+            : vscode.DiagnosticSeverity.Warning;
+
+        const entries = evaluation.suggestions
+            .filter(suggestion => suggestion.line >= 1 && suggestion.line <= document.lineCount)
+            .map(suggestion => ({
+                diagnostic: createDiagnostic(document, suggestion, severity),
+                replacement: suggestion.exampleReplacement
+            }));
+
+        this.set(document.uri, entries);
+    }
+
+    clear(uri: vscode.Uri): void {
+        this.set(uri, []);
+    }
+
+    has(uri: vscode.Uri): boolean {
+        return (this.suggestions.get(uri.toString())?.length ?? 0) > 0;
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const entries = this.suggestions.get(document.uri.toString()) ?? [];
+
+        // context.diagnostics are copies, so match on position and message
+        return context.diagnostics
+            .filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE)
+            .map(diagnostic => entries.find(entry =>
+                entry.diagnostic.range.isEqual(diagnostic.range) &&
+                entry.diagnostic.message === diagnostic.message
+            ))
+            .filter((entry): entry is SuggestionDiagnostic => entry !== undefined && entry.replacement.trim() !== "")
+            .map(entry => this.createFix(document, entry));
+    }
+
+    dispose(): void {
+        this.changeListener.dispose();
+        this.collection.dispose();
+        this.suggestions.clear();
+    }
+
+    private createFix(document: vscode.TextDocument, entry: SuggestionDiagnostic): vscode.CodeAction {
+        const fix = new vscode.CodeAction("Apply CodeForgeX suggestion", vscode.CodeActionKind.QuickFix);
+        const line = document.lineAt(entry.diagnostic.range.start.line);
+        const indent = line.text.slice(0, line.firstNonWhitespaceCharacterIndex);
+
+        fix.edit = new vscode.WorkspaceEdit();
+        fix.edit.replace(document.uri, entry.diagnostic.range, indentReplacement(entry.replacement, indent));
+        fix.diagnostics = [entry.diagnostic];
+        fix.isPreferred = true;
+        return fix;
+    }
+
+    private set(uri: vscode.Uri, entries: SuggestionDiagnostic[]): void {
+        if (entries.length === 0) {
+            this.suggestions.delete(uri.toString());
+            this.collection.delete(uri);
+            return;
+        }
+        this.suggestions.set(uri.toString(), entries);
+        this.collection.set(uri, entries.map(entry => entry.diagnostic));
+    }
+
+    /**
+     * Keeps diagnostics on the code they were reported for: code after
+     * an edit moves with it, and a diagnostic whose text was edited
+     * (e.g. by applying its fix) is dropped.
+     */
+    private trackEdits(event: vscode.TextDocumentChangeEvent): void {
+        let entries = this.suggestions.get(event.document.uri.toString());
+        if (!entries || event.contentChanges.length === 0) {
+            return;
+        }
+
+        for (const change of event.contentChanges) {
+            entries = entries
+                .filter(entry => !rangesOverlap(entry.diagnostic.range, change.range))
+                .map(entry => {
+                    const range = entry.diagnostic.range;
+                    if (range.start.isBefore(change.range.end)) {
+                        return entry;
+                    }
+                    const moved = new vscode.Diagnostic(
+                        new vscode.Range(shiftPosition(range.start, change), shiftPosition(range.end, change)),
+                        entry.diagnostic.message,
+                        entry.diagnostic.severity
+                    );
+                    moved.source = entry.diagnostic.source;
+                    return { ...entry, diagnostic: moved };
+                });
+        }
+
+        this.set(event.document.uri, entries);
+    }
+}
+
+function createDiagnostic(
+    document: vscode.TextDocument,
+    suggestion: EvaluationSuggestion,
+    severity: vscode.DiagnosticSeverity
+): vscode.Diagnostic {
+    // Underline the code on the line, not its indentation
+    const line = document.lineAt(suggestion.line - 1);
+    const range = new vscode.Range(
+        line.lineNumber, line.firstNonWhitespaceCharacterIndex,
+        line.lineNumber, line.text.length
+    );
+
+    const diagnostic = new vscode.Diagnostic(
+        range,
+        `${suggestion.issue}\nBetter approach: ${suggestion.betterApproach}`,
+        severity
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    return diagnostic;
+}
+
+// Lines after the first are indented to match the replaced line
+function indentReplacement(replacement: string, indent: string): string {
+    return replacement
+        .trim()
+        .split("\n")
+        .map((line, index) => (index === 0 ? line : indent + line))
+        .join("\n");
+}
+
+// Whether an edit changed text inside the diagnostic; edits that only
+// end where it starts or start where it ends leave it alone
+function rangesOverlap(diagnostic: vscode.Range, edit: vscode.Range): boolean {
+    return diagnostic.start.isBefore(edit.end) && edit.start.isBefore(diagnostic.end);
+}
+
+// Where a position at or after the edited range ends up after the edit
+function shiftPosition(position: vscode.Position, change: vscode.TextDocumentContentChangeEvent): vscode.Position {
+    const insertedLines = change.text.split("\n");
+    const addedLines = insertedLines.length - 1;
+    const { start, end } = change.range;
+
+    if (position.line > end.line) {
+        return position.translate(addedLines - (end.line - start.line));
+    }
+
+    // On the last edited line: follows the end of the inserted text
+    const lastLineLength = insertedLines[addedLines].length;
+    const column = (addedLines === 0 ? start.character : 0) + lastLineLength;
+    return new vscode.Position(start.line + addedLines, column + position.character - end.character);
+}
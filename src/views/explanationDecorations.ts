@@ -0,0 +1,154 @@
+import * as vscode from "vscode";
+import { LineExplanation } from "../services/aiSchemas";
+
+// Whole-solution explanations and selection explanations are toggled separately
+export type ExplanationKind = "code" | "selection";
+
+// Longer explanations are cut in the inline text; the hover shows them in full
+const INLINE_MAX_LENGTH = 80;
+
+export interface ExplainedLine {
+    line: number;               // 0-based document line
+    text: string;
+    kind: ExplanationKind;
+}
+
+/**
+ * Shows line explanations next to the code as faded end-of-line text,
+ * with the full explanation in a hover. The document is never edited,
+ * so turning explanations off cannot disturb the user's own changes.
+ */
+export class ExplanationDecorations implements vscode.HoverProvider, vscode.Disposable {
+
+    private decorationType = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor("editorCodeLens.foreground"),
+            fontStyle: "italic",
+            margin: "0 0 0 2em"
+        },
+        rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+    });
+
+    private explained = new Map<string, ExplainedLine[]>();
+    private listeners: vscode.Disposable[];
+
+    constructor() {
+        this.listeners = [
+            vscode.workspace.onDidChangeTextDocument(event => this.trackEdits(event)),
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.render(editor)))
+        ];
+    }
+
+    /**
+     * Adds explanations for lines starting at firstLine (0-based).
+     * LineExplanation.line is relative to that first line. A line that
+     * is explained again keeps only the newest explanation.
+     */
+    add(document: vscode.TextDocument, firstLine: number, explanations: LineExplanation[], kind: ExplanationKind): void {
+        const added = explanations
+            .map(entry => ({ line: firstLine + entry.line - 1, text: entry.explanation, kind }))
+            .filter(entry => entry.line < document.lineCount);
+        const addedLines = new Set(added.map(entry => entry.line));
+
+        const kept = this.get(document.uri).filter(entry => !addedLines.has(entry.line));
+        this.set(document.uri, [...kept, ...added]);
+    }
+
+    clear(uri: vscode.Uri, kind: ExplanationKind): void {
+        this.set(uri, this.get(uri).filter(entry => entry.kind !== kind));
+    }
+
+    has(uri: vscode.Uri, kind: ExplanationKind): boolean {
+        return this.get(uri).some(entry => entry.kind === kind);
+    }
+
+    /**
+     * Everything shown for a document, so a streamed preview can be
+     * rolled back with restore() when the request is cancelled.
+     */
+    snapshot(uri: vscode.Uri): ExplainedLine[] {
+        return [...this.get(uri)];
+    }
+
+    restore(uri: vscode.Uri, snapshot: ExplainedLine[]): void {
+        this.set(uri, [...snapshot]);
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const entry = this.get(document.uri).find(explained => explained.line === position.line);
+        if (!entry) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown("**CodeForgeX explanation**\n\n");
+        markdown.appendText(entry.text);
+        return new vscode.Hover(markdown, document.lineAt(entry.line).range);
+    }
+
+    dispose(): void {
+        this.listeners.forEach(listener => listener.dispose());
+        this.decorationType.dispose();
+        this.explained.clear();
+    }
+
+    private get(uri: vscode.Uri): ExplainedLine[] {
+        return this.explained.get(uri.toString()) ?? [];
+    }
+
+    private set(uri: vscode.Uri, entries: ExplainedLine[]): void {
+        if (entries.length === 0) {
+            this.explained.delete(uri.toString());
+        } else {
+            this.explained.set(uri.toString(), entries);
+        }
+
+        vscode.window.visibleTextEditors
+            .filter(editor => editor.document.uri.toString() === uri.toString())
+            .forEach(editor => this.render(editor));
+    }
+
+    private render(editor: vscode.TextEditor): void {
+        const options = this.get(editor.document.uri)
+            .filter(entry => entry.line < editor.document.lineCount)
+            .map(entry => {
+                const line = editor.document.lineAt(entry.line);
+                return {
+                    range: new vscode.Range(entry.line, line.text.length, entry.line, line.text.length),
+                    renderOptions: { after: { contentText: `  ${truncate(entry.text)}` } }
+                };
+            });
+
+        editor.setDecorations(this.decorationType, options);
+    }
+
+    /**
+     * Keeps explanations on their lines as the user edits: lines below
+     * an edit move with it, and lines the edit removed lose theirs.
+     */
+    private trackEdits(event: vscode.TextDocumentChangeEvent): void {
+        let entries = this.explained.get(event.document.uri.toString());
+        if (!entries || event.contentChanges.length === 0) {
+            return;
+        }
+
+        for (const change of event.contentChanges) {
+            const start = change.range.start.line;
+            const end = change.range.end.line;
+            const delta = (change.text.split("\n").length - 1) - (end - start);
+
+            entries = entries
+                .filter(entry => entry.line <= start || entry.line > end)
+                .map(entry => (entry.line > end ? { ...entry, line: entry.line + delta } : entry));
+        }
+
+        this.set(event.document.uri, entries);
+    }
+}
+
+function truncate(text: string): string {
+    const singleLine = text.replace(/\s+/g, " ").trim();
+    return singleLine.length > INLINE_MAX_LENGTH
+        ? singleLine.slice(0, INLINE_MAX_LENGTH - 1) + "…"
+        : singleLine;
+}
@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import { PracticeSession, DisplayMode } from "../services/sessionService";
+import { HINT_LEVEL_NAMES } from "../services/aiSchemas";
+
+/**
+ * Display mode for newly started practice sessions.
+ */
+export function getDisplayMode(): DisplayMode {
+    return vscode.workspace
+        .getConfiguration("codeforgex")
+        .get<DisplayMode>("display.mode", "panel");
+}
+
+/**
+ * Side panel that renders the active practice session next to the
+ * editor, so the source file only ever holds the user's own code.
+ * There is a single panel; it follows whichever session is active.
+ */
+export class ProblemPanel implements vscode.Disposable {
+
+    private panel: vscode.WebviewPanel | undefined;
+
+    /**
+     * Opens the panel beside the editor (or reveals it) and renders
+     * the session. Focus stays in the editor.
+     */
+    show(session: PracticeSession): void {
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                "codeforgex.problem",
+                "CodeForgeX: Problem",
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: false }
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+        } else {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        }
+
+        this.render(session);
+    }
+
+    /**
+     * Re-renders the session if the panel is open. Never opens it —
+     * a user who closed the panel keeps it closed.
+     */
+    update(session: PracticeSession): void {
+        if (this.panel) {
+            this.render(session);
+        }
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+        this.panel = undefined;
+    }
+
+    private render(session: PracticeSession): void {
+        if (!this.panel) {
+            return;
+        }
+        this.panel.webview.html = renderSession(session, this.panel.webview.cspSource);
+    }
+}
+
+function renderSession(session: PracticeSession, cspSource: string): string {
+    const sections: string[] = [];
+
+    if (!session.hasQuestion || !session.question) {
+        sections.push(`<p class="muted">No practice question for this file. Run Start Practice to generate one.</p>`);
+    } else {
+        const label = [session.difficulty, session.topics.join(", ")].filter(Boolean).join(" · ");
+        sections.push(
+            `<h1>Question${label ? ` <span class="muted">(${escapeHtml(label)})</span>` : ""}</h1>`,
+            `<div class="text">${escapeHtml(session.question)}</div>`
+        );
+
+        const visibleTests = session.tests.filter(test => !test.hidden);
+        if (visibleTests.length > 0) {
+            sections.push(`<h2>Examples</h2>`);
+            for (const test of visibleTests) {
+                sections.push(
+                    `<div class="example"><div class="muted">Input</div><pre>${escapeHtml(test.input)}</pre>` +
+                    `<div class="muted">Output</div><pre>${escapeHtml(test.expectedOutput)}</pre></div>`
+                );
+            }
+        }
+
+        if (session.hintVisible && session.hintLevel > 0) {
+            sections.push(`<h2>Hints</h2>`, "<ol>");
+            session.hints.slice(0, session.hintLevel).forEach((hint, index) => {
+                sections.push(
+                    `<li><strong>${escapeHtml(HINT_LEVEL_NAMES[index] ?? "Hint")}:</strong> ` +
+                    `<span class="text">${escapeHtml(hint)}</span></li>`
+                );
+            });
+            sections.push("</ol>");
+        }
+
+        if (session.evaluationVisible && session.evaluation) {
+            const evaluation = session.evaluation;
+            sections.push(
+                `<h2>Evaluation — ${escapeHtml(evaluation.verdict)}</h2>`,
+                "<dl>",
+                `<dt>Correctness</dt><dd class="text">${escapeHtml(evaluation.correctness)}</dd>`,
+                `<dt>Edge Cases</dt><dd class="text">${escapeHtml(evaluation.edgeCases)}</dd>`,
+                `<dt>Time Complexity</dt><dd class="text">${escapeHtml(evaluation.timeComplexity)}</dd>`,
+                `<dt>Code Quality</dt><dd class="text">${escapeHtml(evaluation.codeQuality)}</dd>`,
+                "</dl>"
+            );
+
+            if (evaluation.suggestions.length > 0) {
+                sections.push(`<h3>Suggestions</h3>`, "<ul>");
+                for (const suggestion of evaluation.suggestions) {
+                    sections.push(
+                        `<li><strong>Line ${suggestion.line}:</strong> ${escapeHtml(suggestion.issue)}` +
+                        `<div class="text">${escapeHtml(suggestion.betterApproach)}</div>` +
+                        `<pre>${escapeHtml(suggestion.exampleReplacement)}</pre></li>`
+                    );
+                }
+                sections.push("</ul>");
+            }
+        }
+
+        if (session.solutionVisible && session.solution) {
+            const explained = session.hasExplanation && session.explanations.length > 0;
+            sections.push(
+                `<h2>${explained ? "Explained Solution" : "Solution"}</h2>`,
+                `<pre>${explained ? renderExplainedCode(session) : escapeHtml(session.solution)}</pre>`
+            );
+        }
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 12px; line-height: 1.5; }
+    h1 { font-size: 1.3em; }
+    h2 { font-size: 1.1em; margin-top: 1.5em; border-bottom: 1px solid var(--vscode-panel-border); }
+    h3 { font-size: 1em; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .text { white-space: pre-wrap; }
+    pre { font-family: var(--vscode-editor-font-family); background: var(--vscode-textCodeBlock-background); padding: 8px; overflow-x: auto; }
+    .example { margin-bottom: 8px; }
+    .note { color: var(--vscode-descriptionForeground); font-style: italic; }
+    dt { font-weight: bold; margin-top: 6px; }
+    dd { margin-left: 0; }
+    li { margin-bottom: 6px; }
+</style>
+</head>
+<body>
+${sections.join("\n")}
+</body>
+</html>`;
+}
+
+// Solution lines with each explanation shown after its line
+function renderExplainedCode(session: PracticeSession): string {
+    const notes = new Map(session.explanations.map(entry => [entry.line, entry.explanation]));
+
+    return (session.solution ?? "")
+        .split("\n")
+        .map((line, index) => {
+            const note = notes.get(index + 1);
+            return escapeHtml(line) + (note ? `<span class="note">  // ${escapeHtml(note)}</span>` : "");
+        })
+        .join("\n");
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
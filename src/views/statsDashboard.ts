@@ -0,0 +1,197 @@
+import * as vscode from "vscode";
+import { PracticeStats, GroupStats } from "../services/practiceStats";
+
+/**
+ * Webview with the user's practice statistics. Rendered entirely from
+ * the local history, so it works offline; no scripts, only HTML/CSS.
+ */
+export class StatsDashboard implements vscode.Disposable {
+
+    private panel: vscode.WebviewPanel | undefined;
+
+    /**
+     * Opens the dashboard in the active editor column (or reveals it).
+     */
+    show(stats: PracticeStats): void {
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                "codeforgex.stats",
+                "CodeForgeX: Practice Statistics",
+                vscode.ViewColumn.Active,
+                { enableScripts: false }
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+        } else {
+            this.panel.reveal();
+        }
+
+        this.render(stats);
+    }
+
+    /**
+     * Re-renders if the dashboard is open, e.g. after a session completes.
+     */
+    update(stats: PracticeStats): void {
+        if (this.panel) {
+            this.render(stats);
+        }
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+        this.panel = undefined;
+    }
+
+    private render(stats: PracticeStats): void {
+        if (!this.panel) {
+            return;
+        }
+        this.panel.webview.html = renderStats(stats, this.panel.webview.cspSource);
+    }
+}
+
+/**
+ * "42s", "12m 05s" or "1h 03m".
+ */
+export function formatDuration(seconds: number | null): string {
+    if (seconds === null) {
+        return "—";
+    }
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    const pad = (value: number) => String(value).padStart(2, "0");
+
+    if (hours > 0) {
+        return `${hours}h ${pad(minutes)}m`;
+    }
+    return minutes > 0 ? `${minutes}m ${pad(secs)}s` : `${secs}s`;
+}
+
+function formatPercent(rate: number | null): string {
+    return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+function renderStats(stats: PracticeStats, cspSource: string): string {
+    const sections: string[] = [];
+
+    if (stats.solved === 0) {
+        sections.push(
+            `<h1>Practice Statistics</h1>`,
+            `<p class="muted">No completed practice sessions yet. Solve a problem (Run or Submit) and it will show up here.</p>`
+        );
+    } else {
+        sections.push(
+            `<h1>Practice Statistics</h1>`,
+            `<div class="cards">`,
+            card("Solved", String(stats.solved)),
+            card("Median time", formatDuration(stats.medianSeconds)),
+            card("Used hints", formatPercent(stats.hintUsageRate), `${(stats.averageHints ?? 0).toFixed(1)} per problem`),
+            card("Viewed solution", formatPercent(stats.solutionViewRate)),
+            `</div>`,
+            `<h2>Last ${stats.weekly.length} weeks</h2>`,
+            renderTrend(stats),
+            `<h2>By topic</h2>`,
+            renderGroups(stats.byTopic),
+            `<h2>By language</h2>`,
+            renderGroups(stats.byLanguage),
+            `<h2>By difficulty</h2>`,
+            renderGroups(stats.byDifficulty),
+            `<h2>Recent sessions</h2>`,
+            renderRecent(stats)
+        );
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; line-height: 1.5; }
+    h1 { font-size: 1.3em; }
+    h2 { font-size: 1.1em; margin-top: 1.5em; border-bottom: 1px solid var(--vscode-panel-border); }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .cards { display: flex; flex-wrap: wrap; gap: 12px; }
+    .card { border: 1px solid var(--vscode-panel-border); padding: 8px 16px; min-width: 120px; }
+    .card .value { font-size: 1.6em; font-weight: bold; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 4px 8px; }
+    th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+    .bar { background: var(--vscode-charts-blue, var(--vscode-progressBar-background)); height: 10px; }
+    .trend { display: flex; align-items: flex-end; gap: 6px; height: 120px; }
+    .week { flex: 1; display: flex; flex-direction: column; justify-content: flex-end; align-items: center; height: 100%; }
+    .week .column { width: 100%; background: var(--vscode-charts-blue, var(--vscode-progressBar-background)); }
+    .week .label { font-size: 0.8em; color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+${sections.join("\n")}
+</body>
+</html>`;
+}
+
+function card(title: string, value: string, note?: string): string {
+    return `<div class="card"><div class="muted">${escapeHtml(title)}</div><div class="value">${escapeHtml(value)}</div>` +
+        (note ? `<div class="muted">${escapeHtml(note)}</div>` : "") + `</div>`;
+}
+
+// One column per week, height relative to the busiest week
+function renderTrend(stats: PracticeStats): string {
+    const busiest = Math.max(1, ...stats.weekly.map(point => point.solved));
+    const columns = stats.weekly.map(point => {
+        const title = `Week of ${point.weekStart}: ${point.solved} solved, median ${formatDuration(point.medianSeconds)}, ` +
+            `solution viewed ${formatPercent(point.solutionViewRate)}`;
+        return `<div class="week" title="${escapeHtml(title)}">` +
+            `<div>${point.solved || ""}</div>` +
+            `<div class="column" style="height: ${Math.round((point.solved / busiest) * 80)}%"></div>` +
+            `<div class="label">${escapeHtml(point.weekStart.slice(5))}</div></div>`;
+    });
+
+    const timed = stats.weekly.filter(point => point.medianSeconds !== null);
+    const summary = timed.length >= 2
+        ? `Median time went from ${formatDuration(timed[0].medianSeconds)} (week of ${timed[0].weekStart}) ` +
+          `to ${formatDuration(timed[timed.length - 1].medianSeconds)} (week of ${timed[timed.length - 1].weekStart}).`
+        : "";
+
+    return `<div class="trend">${columns.join("")}</div>` +
+        (summary ? `<p class="muted">${escapeHtml(summary)}</p>` : "");
+}
+
+function renderGroups(groups: GroupStats[]): string {
+    const most = Math.max(1, ...groups.map(group => group.solved));
+    const rows = groups.map(group =>
+        `<tr><td>${escapeHtml(group.name)}</td><td>${group.solved}</td>` +
+        `<td>${formatDuration(group.medianSeconds)}</td>` +
+        `<td style="width: 40%"><div class="bar" style="width: ${Math.round((group.solved / most) * 100)}%"></div></td></tr>`
+    );
+    return `<table><tr><th></th><th>Solved</th><th>Median time</th><th></th></tr>${rows.join("")}</table>`;
+}
+
+function renderRecent(stats: PracticeStats): string {
+    const rows = stats.recent.map(record => {
+        const help = [
+            record.hintsUsed > 0 ? `${record.hintsUsed} hint${record.hintsUsed === 1 ? "" : "s"}` : "",
+            record.solutionViewed ? "solution viewed" : ""
+        ].filter(Boolean).join(", ");
+        return `<tr><td>${escapeHtml(new Date(record.date).toLocaleDateString())}</td>` +
+            `<td>${escapeHtml(record.topics.join(", "))}</td>` +
+            `<td>${escapeHtml(record.language)}</td>` +
+            `<td>${escapeHtml(record.difficulty ?? "")}</td>` +
+            `<td>${escapeHtml(record.timeTaken)}</td>` +
+            `<td class="muted">${escapeHtml(help)}</td></tr>`;
+    });
+    return `<table><tr><th>Date</th><th>Topics</th><th>Language</th><th>Difficulty</th><th>Time</th><th>Help</th></tr>${rows.join("")}</table>`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}